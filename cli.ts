@@ -4,7 +4,10 @@ import { readFileSync, existsSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { mask, shellEscape, writeEnvFile, updateProjectsFile, getDefaultBranch, parseEnvFile, readLearnings } from './lib/utils.js';
 import { unlinkSync } from 'node:fs';
-import { getProjectNames, getProjectDir, getBaseBranch, getBlockedFiles, getSkipPR } from './lib/projects.js';
+import { getProjectNames, getProjectDir, getBaseBranch, getBlockedFiles, getValidationStages, getSetupCommand, getDependencyCache, getSkipPR, getNotionConfig, getGitHostName, getRemote, getPullRequestConfig, getWatchCI, type NotionDatabaseConfig } from './lib/projects.js';
+import { getGitHostNames } from './lib/git-host.js';
+import { resolveGitHubToken } from './lib/github.js';
+import { findPullRequestTemplate } from './lib/pr-body.js';
 import { CONFIG_DIR } from './lib/paths.js';
 import type { Client as NotionClient } from '@notionhq/client';
 
@@ -289,10 +292,18 @@ export async function runDoctor(): Promise<void> {
   printStatus(hasToken, 'NOTION_TOKEN set', hasToken ? mask(notionToken) : undefined);
   track(hasToken);
 
+  // notion.databases in projects.json replaces NOTION_DATABASE_ID
+  const notionConfig = getNotionConfig();
   const dbId = envVars.NOTION_DATABASE_ID || process.env.NOTION_DATABASE_ID || '';
-  const hasDbId = dbId.length > 0;
-  printStatus(hasDbId, 'NOTION_DATABASE_ID set', hasDbId ? mask(dbId) : undefined);
-  track(hasDbId);
+  const databases: NotionDatabaseConfig[] = notionConfig.databases?.length ? notionConfig.databases : dbId ? [{ id: dbId }] : [];
+  if (notionConfig.databases?.length) {
+    printStatus(true, 'Notion databases configured', `${databases.length} in projects.json`);
+    track(true);
+  } else {
+    const hasDbId = dbId.length > 0;
+    printStatus(hasDbId, 'NOTION_DATABASE_ID set', hasDbId ? mask(dbId) : undefined);
+    track(hasDbId);
+  }
 
   const licenseKey = envVars.LICENSE_KEY || process.env.LICENSE_KEY || '';
   if (licenseKey) {
@@ -334,78 +345,105 @@ export async function runDoctor(): Promise<void> {
         track(false);
       }
 
-      if (hasDbId) {
-        try {
-          const db = await client.databases.retrieve({ database_id: dbId }) as { properties: Record<string, { type: string; status?: unknown; select?: { options: Array<{ name: string }> } }> };
-          printStatus(true, 'Database accessible');
-          track(true);
-
-          // Schema validation
-          console.log(`\n${BOLD}Database Schema:${RESET}`);
-
-          const requiredProps: Array<{ name: string; altName?: string; expectedTypes: string[] }> = [
-            { name: 'Name', altName: 'Title', expectedTypes: ['title'] },
-            { name: 'Status', expectedTypes: ['status'] },
-            { name: 'Project', expectedTypes: ['select', 'rich_text'] },
-            { name: 'Ease', expectedTypes: ['number'] },
-            { name: 'Confidence', expectedTypes: ['number'] },
-            { name: 'Spec', expectedTypes: ['rich_text'] },
-            { name: 'Impact', expectedTypes: ['rich_text'] },
-            { name: 'Branch', expectedTypes: ['rich_text'] },
-            { name: 'Cost', expectedTypes: ['rich_text'] },
-            { name: 'PR URL', expectedTypes: ['url', 'rich_text'] },
-          ];
-
-          let schemaOk = 0;
-          let schemaMissing = 0;
-
-          for (const req of requiredProps) {
-            const prop = db.properties[req.name] || (req.altName ? db.properties[req.altName] : undefined);
-            if (prop && req.expectedTypes.includes(prop.type)) {
-              schemaOk++;
-            } else if (prop) {
-              printStatus(false, `Property "${req.name}"`, `found as ${prop.type}, expected ${req.expectedTypes.join(' or ')}`);
-              schemaMissing++;
-              track(false);
-            } else {
-              printStatus(false, `Missing property: "${req.name}"`, `(${req.expectedTypes.join(' or ')})`);
-              schemaMissing++;
-              track(false);
-            }
-          }
-
-          if (schemaMissing === 0) {
-            printStatus(true, `All ${requiredProps.length} required properties found`);
+      if (databases.length > 0) {
+        for (const database of databases) {
+          const label = databases.length > 1 ? ` (${database.name ?? mask(database.id)})` : '';
+          try {
+            const db = await client.databases.retrieve({ database_id: database.id }) as { properties: Record<string, { type: string; status?: { options: Array<{ name: string }> }; select?: { options: Array<{ name: string }> } }> };
+            printStatus(true, `Database accessible${label}`);
             track(true);
-          } else {
-            printStatus(false, `${schemaMissing} properties missing or misconfigured`);
-          }
 
-          // Check Project select options vs projects.json
-          const projectProp = db.properties.Project;
-          if (projectProp?.type === 'select' && projectProp.select) {
-            const notionOptions = projectProp.select.options.map((o) => o.name);
-            const configProjects = getProjectNames();
-            const inNotionNotConfig = notionOptions.filter((n) => !configProjects.includes(n));
-            const inConfigNotNotion = configProjects.filter((n) => !notionOptions.includes(n));
-            if (inNotionNotConfig.length > 0) {
-              printStatus(null, 'Notion has projects not in projects.json', inNotionNotConfig.join(', '));
-              track(null);
-            }
-            if (inConfigNotNotion.length > 0) {
-              printStatus(null, 'projects.json has projects not in Notion', inConfigNotNotion.join(', '));
-              track(null);
+            // Schema validation
+            console.log(`\n${BOLD}Database Schema${label}:${RESET}`);
+
+            // Property and column names can be remapped in projects.json, per database
+            const schema = {
+              properties: { ...notionConfig.properties, ...database.properties },
+              columns: { ...notionConfig.columns, ...database.columns },
+            };
+            const propName = (name: string) => schema.properties?.[name] ?? name;
+
+            const requiredProps: Array<{ name: string; altName?: string; expectedTypes: string[] }> = [
+              { name: propName('Name'), altName: schema.properties?.Name ? undefined : 'Title', expectedTypes: ['title'] },
+              { name: propName('Status'), expectedTypes: ['status'] },
+              { name: propName('Project'), expectedTypes: ['select', 'rich_text'] },
+              { name: propName('Ease'), expectedTypes: ['number'] },
+              { name: propName('Confidence'), expectedTypes: ['number'] },
+              { name: propName('Spec'), expectedTypes: ['rich_text'] },
+              { name: propName('Impact'), expectedTypes: ['rich_text'] },
+              { name: propName('Branch'), expectedTypes: ['rich_text'] },
+              { name: propName('Cost'), expectedTypes: ['rich_text'] },
+              { name: propName('PR URL'), expectedTypes: ['url', 'rich_text'] },
+            ];
+
+            let schemaOk = 0;
+            let schemaMissing = 0;
+
+            for (const req of requiredProps) {
+              const prop = db.properties[req.name] || (req.altName ? db.properties[req.altName] : undefined);
+              if (prop && req.expectedTypes.includes(prop.type)) {
+                schemaOk++;
+              } else if (prop) {
+                printStatus(false, `Property "${req.name}"`, `found as ${prop.type}, expected ${req.expectedTypes.join(' or ')}`);
+                schemaMissing++;
+                track(false);
+              } else {
+                printStatus(false, `Missing property: "${req.name}"`, `(${req.expectedTypes.join(' or ')})`);
+                schemaMissing++;
+                track(false);
+              }
             }
-            if (inNotionNotConfig.length === 0 && inConfigNotNotion.length === 0 && configProjects.length > 0) {
-              printStatus(true, 'Project options match projects.json');
+
+            if (schemaMissing === 0) {
+              printStatus(true, `All ${requiredProps.length} required properties found`);
               track(true);
+            } else {
+              printStatus(false, `${schemaMissing} properties missing or misconfigured`, 'run `ticket-to-pr notion setup` to add missing ones');
             }
-          }
 
-        } catch (e) {
-          const msg = e instanceof Error ? e.message : String(e);
-          printStatus(false, 'Database accessible', msg);
-          track(false);
+            // Every pipeline column needs a matching Status option
+            const statusProp = db.properties[propName('Status')];
+            if (statusProp?.type === 'status' && statusProp.status) {
+              const options = statusProp.status.options.map((o) => o.name);
+              const missingColumns = Object.values(CONFIG.COLUMNS)
+                .map((column) => schema.columns?.[column] ?? column)
+                .filter((option) => !options.includes(option));
+              if (missingColumns.length === 0) {
+                printStatus(true, 'Status options cover all pipeline columns');
+                track(true);
+              } else {
+                printStatus(false, 'Missing Status options', missingColumns.join(', '));
+                track(false);
+              }
+            }
+
+            // Check Project select options vs projects.json
+            const projectProp = db.properties[propName('Project')];
+            if (projectProp?.type === 'select' && projectProp.select) {
+              const notionOptions = projectProp.select.options.map((o) => database.projects?.[o.name] ?? o.name);
+              const configProjects = getProjectNames();
+              const inNotionNotConfig = notionOptions.filter((n) => !configProjects.includes(n));
+              // With several boards, each one only carries some of the projects
+              const inConfigNotNotion = databases.length > 1 ? [] : configProjects.filter((n) => !notionOptions.includes(n));
+              if (inNotionNotConfig.length > 0) {
+                printStatus(null, 'Notion has projects not in projects.json', inNotionNotConfig.join(', '));
+                track(null);
+              }
+              if (inConfigNotNotion.length > 0) {
+                printStatus(null, 'projects.json has projects not in Notion', inConfigNotNotion.join(', '));
+                track(null);
+              }
+              if (inNotionNotConfig.length === 0 && inConfigNotNotion.length === 0 && configProjects.length > 0) {
+                printStatus(true, 'Project options match projects.json');
+                track(true);
+              }
+            }
+
+          } catch (e) {
+            const msg = e instanceof Error ? e.message : String(e);
+            printStatus(false, `Database accessible${label}`, msg);
+            track(false);
+          }
         }
       } else {
         printStatus(false, 'Database accessible', 'no database ID configured');
@@ -427,21 +465,14 @@ export async function runDoctor(): Promise<void> {
   // Tools
   console.log(`\n${BOLD}Tools:${RESET}`);
 
-  const gh = checkCommand('gh --version');
-  if (gh.ok) {
-    printStatus(true, 'gh installed', gh.output.split('\n')[0]);
+  if (process.env.GITHUB_TOKEN) {
+    printStatus(true, 'GitHub token', mask(process.env.GITHUB_TOKEN));
+    track(true);
+  } else if (resolveGitHubToken()) {
+    printStatus(true, 'GitHub token', 'from gh CLI login');
     track(true);
   } else {
-    printStatus(null, 'gh not found', 'Install: brew install gh && gh auth login (required for automatic PR creation)');
-    track(null);
-  }
-
-  if (gh.ok) {
-    const ghAuth = checkCommand('gh auth status');
-    printStatus(ghAuth.ok, 'gh authenticated');
-    track(ghAuth.ok);
-  } else {
-    printStatus(null, 'gh authenticated', 'skipped — gh not installed');
+    printStatus(null, 'GitHub token', 'not set — add GITHUB_TOKEN to .env.local (required for automatic PR creation)');
     track(null);
   }
 
@@ -479,9 +510,10 @@ export async function runDoctor(): Promise<void> {
         continue;
       }
 
-      const origin = checkCommand(`git -C ${shellEscape(dir)} remote get-url origin`);
-      if (!origin.ok) {
-        printStatus(false, `${name}`, `${dir} (no origin remote)`);
+      const remote = getRemote(name);
+      const remoteUrl = checkCommand(`git -C ${shellEscape(dir)} remote get-url ${shellEscape(remote)}`);
+      if (!remoteUrl.ok) {
+        printStatus(false, `${name}`, `${dir} (no ${remote} remote)`);
         track(false);
         continue;
       }
@@ -491,7 +523,7 @@ export async function runDoctor(): Promise<void> {
 
       // Display guardrail config
       const configuredBase = getBaseBranch(name);
-      const detectedBase = getDefaultBranch(dir);
+      const detectedBase = getDefaultBranch(dir, remote);
       const baseDisplay = configuredBase
         ? `${configuredBase}${configuredBase !== detectedBase ? ` (auto-detected: ${detectedBase})` : ''}`
         : `${detectedBase} (auto-detected)`;
@@ -500,10 +532,51 @@ export async function runDoctor(): Promise<void> {
       const blocked = getBlockedFiles(name);
       printStatus(null, `  Blocked files`, blocked.length > 0 ? blocked.join(', ') : 'none configured');
 
+      const setupCmd = getSetupCommand(name);
+      const cache = getDependencyCache(name);
+      if (setupCmd || cache.paths.length > 0) {
+        printStatus(null, `  Worktree setup`, [
+          cache.paths.length > 0 && `${cache.strategy} ${cache.paths.join(', ')}`,
+          setupCmd,
+        ].filter(Boolean).join(', then '));
+      }
+
+      const stages = getValidationStages(name);
+      printStatus(null, `  Validation`, stages.length > 0
+        ? stages.map((s) => `${s.name}${s.required ? '' : ' (advisory)'}`).join(' → ')
+        : 'none configured');
+
       const skip = getSkipPR(name);
       if (skip) {
         printStatus(null, `  Skip PR`, 'enabled');
       }
+
+      if (getWatchCI(name)) {
+        printStatus(null, `  CI watch`, skip ? 'enabled, but skipPR is on — nothing to watch' : 'enabled');
+      }
+
+      const gitHost = getGitHostName(name);
+      if (!getGitHostNames().includes(gitHost)) {
+        printStatus(false, `  Git host`, `unknown gitHost "${gitHost}" (available: ${getGitHostNames().join(', ')})`);
+        track(false);
+      } else if (gitHost === 'gitlab' && !skip && !process.env.GITLAB_TOKEN) {
+        printStatus(false, `  Git host`, 'gitlab — GITLAB_TOKEN not set (needed to open merge requests)');
+        track(false);
+      } else {
+        printStatus(null, `  Git host`, `${gitHost}${remote !== 'origin' ? ` (remote: ${remote})` : ''}`);
+      }
+
+      const pr = getPullRequestConfig(name);
+      const prSettings = [
+        pr.draft && 'draft',
+        pr.reviewers.length + pr.teamReviewers.length > 0 && `reviewers: ${[...pr.reviewers, ...pr.teamReviewers].join(', ')}`,
+        pr.labels.length > 0 && `labels: ${pr.labels.join(', ')}`,
+        pr.assignees.length > 0 && `assignees: ${pr.assignees.join(', ')}`,
+        pr.useTemplate && (findPullRequestTemplate(dir) ? 'template' : 'template (none found)'),
+      ].filter(Boolean);
+      if (prSettings.length > 0) {
+        printStatus(null, `  Pull requests`, prSettings.join(' | '));
+      }
     }
   }
 
@@ -632,14 +705,11 @@ export async function runInit(): Promise<void> {
       console.log(`    ${RED}This is required — agents cannot run without it.${RESET}`);
     }
 
-    const gh = checkCommand('gh --version');
-    if (gh.ok) {
-      printStatus(true, 'gh', gh.output.split('\n')[0]);
-      const ghAuth = checkCommand('gh auth status');
-      printStatus(ghAuth.ok, 'gh authenticated', ghAuth.ok ? undefined : 'run: gh auth login');
+    if (process.env.GITHUB_TOKEN || resolveGitHubToken()) {
+      printStatus(true, 'GitHub token', process.env.GITHUB_TOKEN ? 'GITHUB_TOKEN' : 'from gh CLI login');
     } else {
-      printStatus(null, 'GitHub CLI not found');
-      console.log(`    ${DIM}Install: brew install gh && gh auth login${RESET}`);
+      printStatus(null, 'GitHub token not found');
+      console.log(`    ${DIM}Add GITHUB_TOKEN to .env.local (fine-grained token with Pull requests: write)${RESET}`);
       console.log(`    ${DIM}Required for automatic PR creation. Review/Execute still work without it.${RESET}`);
     }
 
@@ -987,3 +1057,85 @@ export async function runLearnings(args: string[]): Promise<void> {
   console.log(`  ticket-to-pr learnings <project>          ${DIM}# view one project${RESET}`);
   console.log(`  ticket-to-pr learnings clear <project>    ${DIM}# clear a project's learnings${RESET}\n`);
 }
+
+// -- Notion schema setup --
+
+export async function runNotion(args: string[]): Promise<void> {
+  const subCmd = args[0]?.toLowerCase();
+  const dryRun = args.includes('--dry-run');
+
+  if (subCmd !== 'setup') {
+    console.log(`\n${BOLD}Usage:${RESET}`);
+    console.log(`  ticket-to-pr notion setup              ${DIM}# add missing properties to the Notion database${RESET}`);
+    console.log(`  ticket-to-pr notion setup --dry-run    ${DIM}# show what would change${RESET}\n`);
+    process.exitCode = subCmd ? 1 : 0;
+    return;
+  }
+
+  const token = process.env.NOTION_TOKEN;
+  const { getNotionDatabases } = await import('./lib/notion.js');
+  const databases = getNotionDatabases();
+  if (!token || databases.length === 0) {
+    console.log(`${RED}Notion is not configured.${RESET} Set NOTION_TOKEN and NOTION_DATABASE_ID (or notion.databases in projects.json), or run ${DIM}ticket-to-pr init${RESET}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { Client } = await import('@notionhq/client');
+  const { planNotionSetup, setupUpdateProperties } = await import('./lib/notion-setup.js');
+  const client = new Client({ auth: token });
+
+  console.log(`\n${BOLD}TicketToPR Notion Setup${RESET}${dryRun ? ` ${DIM}(dry run)${RESET}` : ''}`);
+
+  for (const database of databases) {
+    console.log(`\n${BOLD}${databases.length > 1 ? database.name : 'Database'}:${RESET}`);
+
+    let properties;
+    try {
+      const db = await client.databases.retrieve({ database_id: database.id });
+      properties = (db as { properties: Record<string, { type: string; status?: { options: Array<{ name: string }> } }> }).properties;
+    } catch (e) {
+      printStatus(false, 'Database accessible', e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
+      continue;
+    }
+
+    const plan = planNotionSetup(properties, database.schema);
+    const toCreate = Object.entries(plan.create);
+
+    if (plan.present.length > 0) {
+      printStatus(true, `${plan.present.length} properties already in place`);
+    }
+    for (const conflict of plan.conflicts) {
+      printStatus(false, `"${conflict.name}" is ${conflict.found}`, `expected ${conflict.expected.join(' or ')} — change its type or map another property in projects.json`);
+      process.exitCode = 1;
+    }
+
+    if (toCreate.length > 0) {
+      if (dryRun) {
+        for (const [name, type] of toCreate) printStatus(null, `Would create "${name}"`, `(${type})`);
+      } else {
+        try {
+          await client.databases.update({ database_id: database.id, properties: setupUpdateProperties(plan) });
+          for (const [name, type] of toCreate) printStatus(true, `Created "${name}"`, `(${type})`);
+        } catch (e) {
+          printStatus(false, 'Failed to create properties', e instanceof Error ? e.message : String(e));
+          process.exitCode = 1;
+        }
+      }
+    }
+
+    // The API can't create or edit status properties — these need a human
+    if (plan.statusProblem) {
+      printStatus(false, plan.statusProblem, 'create a Status property in Notion (the API cannot)');
+      process.exitCode = 1;
+    } else if (plan.missingStatusOptions.length > 0) {
+      printStatus(false, 'Missing Status options', plan.missingStatusOptions.join(', '));
+      console.log(`    ${DIM}Add them in Notion: open the Status property → Edit property → + Add an option. The API cannot edit Status options.${RESET}`);
+      process.exitCode = 1;
+    } else {
+      printStatus(true, 'Status options cover all pipeline columns');
+    }
+  }
+  console.log('');
+}
@@ -42,6 +42,22 @@ export const CONFIG = {
   // Polling
   POLL_INTERVAL_MS: 30_000,
 
+  // Webhook mode (--webhook): events drive the pipeline, polling only reconciles
+  get WEBHOOK_PORT(): number {
+    return Number(process.env.WEBHOOK_PORT) || 8787;
+  },
+  WEBHOOK_RECONCILE_INTERVAL_MS: 10 * 60 * 1000,
+
+  // How often PRs of PR Ready / Testing tickets are checked for merge or close
+  PR_SYNC_INTERVAL_MS: 5 * 60 * 1000,
+
+  // CI watch (projects with watchCI): how long to wait for checks, and how often to repair them
+  CI_POLL_INTERVAL_MS: 30_000,
+  CI_CHECKS_APPEAR_MS: 2 * 60 * 1000,
+  CI_WATCH_TIMEOUT_MS: 20 * 60 * 1000,
+  CI_REPAIR_MAX_ATTEMPTS: 2,
+  CI_LOG_MAX_CHARS: 12_000,
+
   // Notion column names -> agent modes
   COLUMNS: {
     REVIEW: 'Review',
@@ -58,6 +74,7 @@ export const CONFIG = {
   REVIEW_BUDGET_USD: 2.00,
   EXECUTE_BUDGET_USD: 15.00,
   DIFF_REVIEW_BUDGET_USD: 0.50,
+  ADDRESS_REVIEW_BUDGET_USD: 5.00,
 
   // Agent models (env override → default)
   get REVIEW_MODEL(): string {
@@ -74,6 +91,30 @@ export const CONFIG = {
   REVIEW_MAX_TURNS: 25,
   EXECUTE_MAX_TURNS: 50,
   DIFF_REVIEW_MAX_TURNS: 10,
+  ADDRESS_REVIEW_MAX_TURNS: 30,
+  CI_REPAIR_MAX_TURNS: 30,
+  DIFF_FIXUP_MAX_TURNS: 30,
+  BUILD_REPAIR_MAX_TURNS: 30,
+
+  // Fix-up rounds after a diff review rejection before the ticket fails (0 = fail immediately)
+  DIFF_REVIEW_MAX_ROUNDS: 2,
+
+  // Repair attempts after a failed buildCommand before the ticket fails (0 = fail immediately)
+  BUILD_REPAIR_MAX_ATTEMPTS: 2,
+  // Build output handed to the repair agent (the end of it, where errors are summarized)
+  BUILD_LOG_MAX_CHARS: 20_000,
+
+  // Time allowed for a project's setupCommand in a fresh worktree (10 minutes)
+  SETUP_TIMEOUT_MS: 10 * 60 * 1000,
+
+  // Times an interrupted execute run is resumed before the ticket fails
+  RECOVERY_MAX_RESUMES: 1,
+
+  // How often the job ledger is rewritten to one line per job while running
+  JOBS_COMPACT_INTERVAL_MS: 60 * 60 * 1000,
+
+  // Finished jobs older than this are dropped when the ledger is compacted (30 days)
+  JOBS_RETENTION_MS: 30 * 24 * 60 * 60 * 1000,
 
   // Stale lock timeout (30 minutes)
   STALE_LOCK_MS: 30 * 60 * 1000,
@@ -113,22 +154,54 @@ export const DIFF_REVIEW_SCHEMA = {
   required: ['approved', 'issues', 'summary'],
 } as const;
 
+// JSON schema for the review follow-up agent: one reply per PR review thread
+export const ADDRESS_REVIEW_SCHEMA = {
+  type: 'object',
+  properties: {
+    replies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          threadId: { type: 'string' },
+          reply: { type: 'string' },
+        },
+        required: ['threadId', 'reply'],
+      },
+    },
+    summary: { type: 'string' },
+  },
+  required: ['replies', 'summary'],
+} as const;
+
 // Types
 
-export interface NotionTicket {
+export interface Ticket {
   id: string;
   title: string;
   project: string;
   status: string;
 }
 
-export interface TicketDetails extends NotionTicket {
+export interface TicketDetails extends Ticket {
   description: string;
   bodyBlocks: string;
   spec?: string;
   impact?: string;
   ease?: number;
   confidence?: number;
+  /** Files attached to the ticket body (screenshots, mockups, documents). */
+  attachments?: TicketAttachment[];
+  /** Pull request opened for the ticket, once executed. */
+  prUrl?: string;
+  /** Full output of the last review, when it was stored locally (see lib/review-store.ts). */
+  review?: ReviewOutput;
+}
+
+export interface TicketAttachment {
+  name: string;
+  /** Download URL — may be short-lived (Notion signs file URLs for an hour). */
+  url: string;
 }
 
 export interface ReviewOutput {
@@ -147,7 +220,61 @@ export interface DiffReviewOutput {
   summary: string;
 }
 
+export interface TicketComment {
+  author: string;
+  text: string;
+  createdTime: string;
+}
+
+export interface ExecutionResults {
+  branch: string;
+  cost: number;
+  prUrl?: string;
+  prNumber?: number;
+  /** GitHub GraphQL node id of the PR. */
+  prNodeId?: string;
+}
+
+export interface PRMergeInfo {
+  /** ISO timestamp. */
+  mergedAt: string;
+  /** Login of the user who merged. */
+  mergedBy?: string;
+}
+
+/** Lifecycle timestamps recorded on a ticket outside the review/execute writes. */
+export type TicketDateField = 'testingAt' | 'doneAt';
+
+/**
+ * A ticket tracker the orchestrator reads from and writes back to.
+ * Statuses are always the column names from CONFIG.COLUMNS — each source
+ * maps them onto whatever its tracker uses.
+ */
+export interface TicketSource {
+  /** Display name for logs and links (e.g. "Notion"). */
+  readonly name: string;
+  fetchTicketsByStatus(status: string): Promise<Ticket[]>;
+  fetchTicketDetails(ticketId: string): Promise<TicketDetails>;
+  writeReviewResults(ticketId: string, results: ReviewOutput): Promise<void>;
+  writeExecutionResults(ticketId: string, results: ExecutionResults): Promise<void>;
+  moveTicketStatus(ticketId: string, newStatus: string): Promise<void>;
+  /** Record the error and move the ticket to Failed. */
+  writeFailure(ticketId: string, error: string): Promise<void>;
+  /** Best-effort audit trail comment — must not throw. */
+  addComment(ticketId: string, text: string): Promise<void>;
+  /** Human-authored comments only (the source filters out its own). */
+  fetchComments(ticketId: string): Promise<TicketComment[]>;
+  hasFeedbackMarker(ticketId: string): Promise<boolean>;
+  hasTestingMarker(ticketId: string): Promise<boolean>;
+  /** Best-effort — skips silently if the tracker can't store the date. */
+  trySetDate(ticketId: string, field: TicketDateField): Promise<void>;
+  /** Record when and by whom the ticket's PR was merged. Best-effort, like trySetDate. */
+  writePRMerge(ticketId: string, info: PRMergeInfo): Promise<void>;
+  /** Browser URL for the ticket, used in PR bodies. */
+  ticketUrl(ticketId: string): string;
+}
+
 export interface LockEntry {
-  mode: 'review' | 'execute';
+  mode: 'review' | 'execute' | 'address';
   startedAt: number;
 }
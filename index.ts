@@ -1,23 +1,21 @@
-import { readFileSync } from 'node:fs';
+import { readFileSync, existsSync } from 'node:fs';
 import { execSync } from 'node:child_process';
 import { join } from 'node:path';
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import { CONFIG, REVIEW_OUTPUT_SCHEMA, DIFF_REVIEW_SCHEMA, isPro, type LockEntry, type TicketDetails, type ReviewOutput, type DiffReviewOutput } from './config.js';
-import { sleep, clamp, extractJsonFromOutput, shellEscape, loadEnv, parseEnvFile, createWorktree, removeWorktree, getDefaultBranch, validateNoBlockedFiles, readLearnings, appendLearning } from './lib/utils.js';
-import { getProjectDir, getProjectNames, getBuildCommand, getBaseBranch, getBlockedFiles, getSkipPR, getDevAccess, getEnvFile } from './lib/projects.js';
-import {
-  fetchTicketsByStatus,
-  fetchTicketDetails,
-  writeReviewResults,
-  writeExecutionResults,
-  moveTicketStatus,
-  writeFailure,
-  addComment,
-  fetchComments,
-  hasFeedbackMarker,
-  hasTestingMarker,
-  trySetDate,
-} from './lib/notion.js';
+import { CONFIG, REVIEW_OUTPUT_SCHEMA, DIFF_REVIEW_SCHEMA, ADDRESS_REVIEW_SCHEMA, isPro, type LockEntry, type Ticket, type TicketDetails, type TicketSource, type ReviewOutput, type DiffReviewOutput } from './config.js';
+import { sleep, clamp, extractJsonFromOutput, shellEscape, loadEnv, parseEnvFile, createWorktree, attachWorktree, removeWorktree, linkDependencies, getDefaultBranch, validateNoBlockedFiles, listChangedFiles, findOutOfScopeFiles, runBuildCommand, readLearnings, appendLearning } from './lib/utils.js';
+import { getProjectDir, getProjectNames, getValidationStages, getBaseBranch, getBlockedFiles, getSkipPR, getDevAccess, getEnvFile, getOnPRClosed, getRemote, getPullRequestConfig, getWatchCI, getSetupCommand, getDependencyCache } from './lib/projects.js';
+import { getTicketSource, getTicketSourceName, getMissingSourceEnv } from './lib/tickets.js';
+import { startWebhookServer } from './lib/webhook.js';
+import { getNotionDatabases, sameNotionId } from './lib/notion.js';
+import { prSyncAction } from './lib/pr-status.js';
+import { getGitHost, type PullRequest } from './lib/git-host.js';
+import { renderPullRequestBody, findPullRequestTemplate } from './lib/pr-body.js';
+import { pendingReviewThreads, formatReviewThreads, formatReviewReply } from './lib/pr-review.js';
+import { summarizeChecks, tailLog, formatFailedChecks, type ChecksOutcome } from './lib/ci.js';
+import { runValidationStages, blockingFailure, formatValidationSummary, formatValidationTable, type StageResult } from './lib/validation.js';
+import { attachmentsDir, downloadAttachments, formatAttachmentsSection, removeAttachments, type DownloadedAttachment } from './lib/attachments.js';
+import { createJobLedger, type JobPatch } from './lib/jobs.js';
 import { PACKAGE_ROOT, CONFIG_DIR } from './lib/paths.js';
 
 // Load .env.local from the user's working directory
@@ -28,27 +26,40 @@ delete process.env.CLAUDECODE;
 
 // -- Subcommand routing --
 const subcommand = process.argv[2];
-if (subcommand === 'init' || subcommand === 'doctor' || subcommand === 'model' || subcommand === 'learnings') {
-  const { runInit, runDoctor, runModel, runLearnings } = await import('./cli.js');
+if (subcommand === 'init' || subcommand === 'doctor' || subcommand === 'model' || subcommand === 'learnings' || subcommand === 'notion') {
+  const { runInit, runDoctor, runModel, runLearnings, runNotion } = await import('./cli.js');
   if (subcommand === 'model') {
     await runModel(process.argv.slice(3));
   } else if (subcommand === 'learnings') {
     await runLearnings(process.argv.slice(3));
+  } else if (subcommand === 'notion') {
+    await runNotion(process.argv.slice(3));
   } else {
     await (subcommand === 'init' ? runInit() : runDoctor());
   }
-  process.exit(0);
+  // Subcommands report failure through process.exitCode
+  process.exit(process.exitCode ?? 0);
 }
 
 // -- CLI flags --
 const args = process.argv.slice(2);
 const DRY_RUN = args.includes('--dry-run');
 const ONCE = args.includes('--once');
+const WEBHOOK = args.includes('--webhook');
 
 // -- State --
+let source: TicketSource;
 const activeLocks = new Map<string, LockEntry>();
+// Every run, on disk — survives restarts, unlike the locks and sets here
+const jobs = createJobLedger();
 const feedbackProcessed = new Set<string>();
 const testingNotified = new Set<string>();
+// Tickets whose PR merge has already been recorded (seeded from the ledger)
+const mergeRecorded = new Set<string>();
+let lastPRSync = 0;
+let lastJobsCompaction = Date.now();
+// Webhook events that arrived while all agent slots were busy
+const deferredTickets = new Set<string>();
 let shuttingDown = false;
 let activeAgentCount = 0;
 
@@ -75,9 +86,26 @@ const executePrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'execute.md'),
 const diffReviewPrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'diff-review.md'), 'utf-8');
 const retroPrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'retro.md'), 'utf-8');
 const feedbackPrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'feedback.md'), 'utf-8');
+const addressReviewPrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'address-review.md'), 'utf-8');
+const ciRepairPrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'ci-repair.md'), 'utf-8');
+const diffFixupPrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'diff-fixup.md'), 'utf-8');
+const buildRepairPrompt = readFileSync(join(PACKAGE_ROOT, 'prompts', 'build-repair.md'), 'utf-8');
 
 // -- Agent Runner --
 
+/** Download the ticket's attachments for the agent. Failed downloads are logged, not fatal. */
+async function prepareAttachments(ticket: TicketDetails, projectDir: string): Promise<DownloadedAttachment[]> {
+  if (!ticket.attachments?.length) return [];
+  const { files, failed } = await downloadAttachments(ticket.attachments, attachmentsDir(projectDir, ticket.id));
+  for (const f of failed) {
+    log(YELLOW, 'ATTACH', `Could not download "${f.name}": ${f.error}`);
+  }
+  if (files.length > 0) {
+    log(DIM, 'ATTACH', `Downloaded ${files.length} attachment(s)`);
+  }
+  return files;
+}
+
 async function runReviewAgent(ticket: TicketDetails): Promise<void> {
   const projectDir = getProjectDir(ticket.project);
   if (!projectDir) {
@@ -88,6 +116,7 @@ async function runReviewAgent(ticket: TicketDetails): Promise<void> {
   const startTime = Date.now();
 
   const blockedFiles = getBlockedFiles(ticket.project);
+  const attachments = await prepareAttachments(ticket, projectDir);
 
   const promptParts = [
     reviewPrompt,
@@ -100,6 +129,7 @@ async function runReviewAgent(ticket: TicketDetails): Promise<void> {
     '',
     '**Page Content**:',
     ticket.bodyBlocks,
+    ...formatAttachmentsSection(attachments),
   ];
 
   if (blockedFiles.length > 0) {
@@ -190,8 +220,9 @@ async function runReviewAgent(ticket: TicketDetails): Promise<void> {
     testCases: Array.isArray(parsed.testCases) ? parsed.testCases.map(String) : [],
   };
 
-  await writeReviewResults(ticket.id, results);
-  await moveTicketStatus(ticket.id, CONFIG.COLUMNS.SCORED);
+  await source.writeReviewResults(ticket.id, results);
+  await source.moveTicketStatus(ticket.id, CONFIG.COLUMNS.SCORED);
+  jobs.update(ticket.id, { cost });
 
   const duration = Math.round((Date.now() - startTime) / 1000);
 
@@ -202,7 +233,7 @@ async function runReviewAgent(ticket: TicketDetails): Promise<void> {
     `Files: ${results.affectedFiles.length} analyzed`,
     `Cost: $${cost.toFixed(2)} | Duration: ${duration}s`,
   ].join('\n');
-  await addComment(ticket.id, comment);
+  await source.addComment(ticket.id, comment);
 
   appendLearning(projectDir, [
     `**Review: ${ticket.title}**`,
@@ -216,16 +247,16 @@ async function runReviewAgent(ticket: TicketDetails): Promise<void> {
 
 async function runDiffReviewAgent(
   worktreeDir: string,
-  baseBranch: string,
+  baseRef: string,
   spec: string,
   description: string,
-  affectedFiles: string[],
+  review: ReviewOutput | undefined,
 ): Promise<{ result: DiffReviewOutput; cost: number }> {
   // Get the full diff
   let diff = '';
   try {
     diff = execSync(
-      `git diff origin/${shellEscape(baseBranch)}...HEAD`,
+      `git diff ${shellEscape(baseRef)}...HEAD`,
       { cwd: worktreeDir, stdio: 'pipe', maxBuffer: 10 * 1024 * 1024 },
     ).toString();
   } catch {
@@ -247,6 +278,9 @@ async function runDiffReviewAgent(
     ? diff.slice(0, maxDiffLength) + '\n\n... (diff truncated)'
     : diff;
 
+  const affectedFiles = review?.affectedFiles ?? [];
+  const outOfScope = findOutOfScopeFiles(listChangedFiles(worktreeDir, baseRef), affectedFiles);
+
   const prompt = [
     diffReviewPrompt,
     '',
@@ -259,6 +293,13 @@ async function runDiffReviewAgent(
     '## Affected Files (from review)',
     affectedFiles.length > 0 ? affectedFiles.map(f => `- ${f}`).join('\n') : '(none listed)',
     '',
+    ...(review?.risks ? ['## Risks (from review)', review.risks, ''] : []),
+    ...(outOfScope.length > 0 ? [
+      '## Files Outside the Reviewed Scope',
+      'Changed, but not in the affected files list. Check that each change is needed for the spec:',
+      outOfScope.map(f => `- ${f}`).join('\n'),
+      '',
+    ] : []),
     '## Diff',
     '```diff',
     truncatedDiff,
@@ -339,7 +380,7 @@ async function runDiffReviewAgent(
 async function runRetroAgent(
   projectDir: string,
   worktreeDir: string,
-  baseBranch: string,
+  baseRef: string,
   ticket: TicketDetails,
   outcome: { success: boolean; error?: string; diffReviewIssues?: string[]; buildFailed?: boolean },
 ): Promise<void> {
@@ -347,7 +388,7 @@ async function runRetroAgent(
     // Get the diff (may be empty if agent failed before committing)
     let diff = '';
     try {
-      diff = execSync(`git diff origin/${shellEscape(baseBranch)}...HEAD`, {
+      diff = execSync(`git diff ${shellEscape(baseRef)}...HEAD`, {
         cwd: worktreeDir, stdio: 'pipe', timeout: 15_000,
       }).toString();
     } catch {
@@ -454,7 +495,7 @@ async function postTestChecklist(ticket: TicketDetails): Promise<void> {
 
   try {
     // Cross-session dedup: check if we already posted a testing checklist
-    const alreadyPosted = await hasTestingMarker(ticket.id);
+    const alreadyPosted = await source.hasTestingMarker(ticket.id);
     if (alreadyPosted) {
       log(DIM, 'TESTING', `Checklist already posted for "${ticket.title}", skipping`);
       return;
@@ -505,8 +546,8 @@ async function postTestChecklist(ticket: TicketDetails): Promise<void> {
       `→ "Failed" if something's wrong (please describe what happened)`,
     ].join('\n');
 
-    await addComment(ticket.id, comment);
-    await trySetDate(ticket.id, 'Testing At');
+    await source.addComment(ticket.id, comment);
+    await source.trySetDate(ticket.id, 'testingAt');
 
     log(GREEN, 'TESTING', `Posted checklist for "${ticket.title}" (${checklist.length} items)`);
   } catch (e) {
@@ -523,19 +564,19 @@ async function runFeedbackRetro(ticket: TicketDetails, status: string): Promise<
 
   try {
     // Cross-session dedup: check if already processed
-    const alreadyProcessed = await hasFeedbackMarker(ticket.id);
+    const alreadyProcessed = await source.hasFeedbackMarker(ticket.id);
     if (alreadyProcessed) {
       log(DIM, 'FEEDBACK', `Already processed, skipping "${ticket.title}"`);
       return;
     }
 
     // Read human comments from the ticket
-    const comments = await fetchComments(ticket.id);
+    const comments = await source.fetchComments(ticket.id);
     if (comments.length === 0) {
       log(DIM, 'FEEDBACK', 'No human comments found, skipping');
       // Only mark Done tickets as processed (Failed might get retried with comments later)
       if (status === CONFIG.COLUMNS.DONE) {
-        await addComment(ticket.id, '🔄 Feedback processed (no human comments found)');
+        await source.addComment(ticket.id, '🔄 Feedback processed (no human comments found)');
       }
       return;
     }
@@ -636,9 +677,9 @@ async function runFeedbackRetro(ticket: TicketDetails, status: string): Promise<
     const learningNote = trimmed && !trimmed.toLowerCase().includes('no new learnings')
       ? 'Learnings saved to project memory.'
       : 'No new learnings extracted.';
-    await addComment(ticket.id, `🔄 Feedback processed\n\nComments analyzed:\n${feedbackSummary}\n\n${learningNote}`);
+    await source.addComment(ticket.id, `🔄 Feedback processed\n\nComments analyzed:\n${feedbackSummary}\n\n${learningNote}`);
     if (status === CONFIG.COLUMNS.DONE) {
-      await trySetDate(ticket.id, 'Done At');
+      await source.trySetDate(ticket.id, 'doneAt');
     }
 
     log(GREEN, 'FEEDBACK', `Done processing feedback for "${ticket.title}"`);
@@ -648,163 +689,516 @@ async function runFeedbackRetro(ticket: TicketDetails, status: string): Promise<
   }
 }
 
-async function runExecuteAgent(ticket: TicketDetails): Promise<void> {
-  const projectDir = getProjectDir(ticket.project);
-  if (!projectDir) {
-    throw new Error(`Unknown project: "${ticket.project}"`);
+/** Prompt sections every coding agent gets: blocked files, dev access rules and project learnings. */
+function projectGuardrailSections(project: string, projectDir: string): string[] {
+  const sections: string[] = [];
+  const blockedFiles = getBlockedFiles(project);
+  if (blockedFiles.length > 0) {
+    sections.push(
+      '',
+      '## BLOCKED FILES — DO NOT TOUCH',
+      'The following file patterns are off-limits. Do NOT create, modify, or delete any files matching these patterns. Violations will cause the entire run to fail.',
+      '',
+      ...blockedFiles.map((p) => `- \`${p}\``),
+    );
+  }
+
+  if (getDevAccess(project)) {
+    sections.push(
+      '',
+      '## DEV ENVIRONMENT ACCESS',
+      'You have access to run scripts and dev tools in this project. Use this to:',
+      '- Write and run scripts to understand database schema or existing data',
+      '- Hit local API endpoints with curl to understand response shapes',
+      '- Run tests to verify your implementation',
+      '- Use ORM tools (e.g. `npx prisma studio`) to inspect the data model',
+      '',
+      '### Rules',
+      '- Do NOT run database migrations (`prisma migrate`, `db push`, `alembic`, etc.)',
+      '- Do NOT drop, truncate, or bulk-delete data',
+      '- Do NOT make requests to external/production hosts — only localhost and 127.0.0.1',
+      '- Clean up any temporary scripts you create before your final commit',
+      '- If you create test data, document it in a commit message so reviewers know',
+    );
+  }
+
+  const learnings = readLearnings(projectDir);
+  if (learnings) {
+    sections.push('', '## Project Learnings', 'These are patterns and lessons learned from previous work on this project:', '', learnings);
+  }
+
+  return sections;
+}
+
+interface CodingAgentOptions {
+  prompt: string;
+  project: string;
+  projectDir: string;
+  worktreeDir: string;
+  additionalDirectories?: string[];
+  maxTurns: number;
+  maxBudgetUsd: number;
+  /** JSON schema for a structured result, for agents that report back (e.g. review replies). */
+  outputSchema?: Record<string, unknown>;
+}
+
+interface CodingAgentRun {
+  cost: number;
+  /** SDK result subtype — "success" or the reason the agent stopped. */
+  subtype: string;
+  /** The agent's final message. */
+  text: string;
+  output?: Record<string, unknown>;
+}
+
+/**
+ * Run an agent that edits and commits in a worktree, with the project's
+ * tool set (plus dev tools with devAccess) and env file.
+ */
+async function runCodingAgent(options: CodingAgentOptions): Promise<CodingAgentRun> {
+  const envFile = getEnvFile(options.project);
+
+  // Build agent environment when envFile is configured
+  let agentEnv: Record<string, string | undefined> | undefined;
+  if (envFile) {
+    const projectEnv = parseEnvFile(join(options.projectDir, envFile));
+    agentEnv = { ...process.env, ...projectEnv };
+  }
+
+  const baseTools = [
+    'Read', 'Glob', 'Grep', 'Edit', 'Write', 'Task',
+    'Bash(git add:*)', 'Bash(git commit:*)', 'Bash(git status:*)',
+    'Bash(git diff:*)', 'Bash(git log:*)',
+    'Bash(npm run build:*)', 'Bash(npm test:*)', 'Bash(npx tsc:*)',
+  ];
+
+  const devTools = [
+    'Bash(npx tsx:*)',
+    'Bash(node:*)',
+    'Bash(npm run:*)',
+    'Bash(npx vitest:*)',
+    'Bash(npx jest:*)',
+    'Bash(npx prisma:*)',
+    'Bash(python:*)',
+    'Bash(curl http://localhost:*)',
+    'Bash(curl http://127.0.0.1:*)',
+  ];
+
+  const allowedTools = getDevAccess(options.project) ? [...baseTools, ...devTools] : baseTools;
+
+  const messages = query({
+    prompt: options.prompt,
+    options: {
+      model: CONFIG.EXECUTE_MODEL,
+      cwd: options.worktreeDir,
+      additionalDirectories: options.additionalDirectories,
+      allowedTools,
+      env: agentEnv,
+      disallowedTools: ['WebFetch', 'WebSearch'],
+      maxTurns: options.maxTurns,
+      maxBudgetUsd: options.maxBudgetUsd,
+      permissionMode: 'acceptEdits',
+      settingSources: ['project'],
+      systemPrompt: { type: 'preset', preset: 'claude_code' },
+      outputFormat: options.outputSchema ? { type: 'json_schema', schema: options.outputSchema } : undefined,
+      stderr: (data: string) => {
+        if (data.trim()) log(DIM, 'STDERR', data.trim());
+      },
+    },
+  });
+
+  const run: CodingAgentRun = { cost: 0, subtype: 'error_during_execution', text: '' };
+  for await (const message of messages) {
+    if (message.type === 'result') {
+      run.cost = message.total_cost_usd ?? 0;
+      run.subtype = message.subtype;
+      if ('structured_output' in message && message.structured_output != null) {
+        run.output = message.structured_output as Record<string, unknown>;
+      }
+      if ('result' in message && message.result) {
+        run.text = message.result;
+      }
+    }
+  }
+  if (options.outputSchema && !run.output && run.text) {
+    run.output = extractJsonFromOutput(run.text) ?? undefined;
+  }
+  return run;
+}
+
+/**
+ * Get a fresh worktree ready to build: reuse the main checkout's dependency
+ * directories, then run the project's setup command. Throws if setup fails.
+ */
+async function prepareWorktree(project: string, projectDir: string, worktreeDir: string): Promise<void> {
+  const cache = getDependencyCache(project);
+  const linked = await linkDependencies(projectDir, worktreeDir, cache.paths, cache.strategy);
+  if (linked.length > 0) {
+    log(YELLOW, 'SETUP', `Reusing ${linked.join(', ')} from the main checkout (${cache.strategy})`);
+  }
+
+  const setupCmd = getSetupCommand(project);
+  if (!setupCmd) return;
+  log(YELLOW, 'SETUP', `Running: ${setupCmd}`);
+  const setup = await runBuildCommand(setupCmd, worktreeDir, CONFIG.SETUP_TIMEOUT_MS);
+  if (!setup.ok) {
+    throw new Error(`Worktree setup failed.\nCommand: ${setupCmd}\nDirectory: ${worktreeDir}\nOutput:\n${tailLog(setup.output, 2000)}`);
   }
+  log(GREEN, 'SETUP', 'Setup complete');
+}
+
+function headCommit(worktreeDir: string): string {
+  return execSync('git rev-parse HEAD', { cwd: worktreeDir, stdio: 'pipe' }).toString().trim();
+}
+
+/** Error for a failed required stage — keeps the end of the output, where compilers put the summary. */
+function validationFailedError(stage: StageResult, worktreeDir: string): Error {
+  return new Error(`Build validation failed — stage "${stage.name}".\nCommand: ${stage.command}\nDirectory: ${worktreeDir}\nOutput:\n${tailLog(stage.output, 2000)}`);
+}
+
+/** Run the project's validation stages, logging each. Advisory failures only warn. */
+async function runValidation(project: string, worktreeDir: string): Promise<StageResult[]> {
+  const stages = getValidationStages(project);
+  if (stages.length > 0) {
+    log(YELLOW, 'VALIDATE', `Running ${stages.map((s) => s.name).join(' → ')}`);
+  }
+  const results = await runValidationStages(stages, worktreeDir);
+  for (const r of results) {
+    if (r.status === 'passed') log(GREEN, 'VALIDATE', `${r.name} passed`);
+    else if (r.status === 'warned') log(YELLOW, 'VALIDATE', `${r.name} failed (advisory): ${tailLog(r.output, 200)}`);
+    else if (r.status === 'failed') log(RED, 'VALIDATE', `${r.name} failed: ${r.command}`);
+  }
+  return results;
+}
 
-  // Create branch name
+/**
+ * Run the project's validation stages and check for blocked file changes.
+ * Throws with the details on failure — nothing may be pushed then.
+ */
+async function validateChanges(project: string, worktreeDir: string, baseBranch: string, remote: string): Promise<void> {
+  const failed = blockingFailure(await runValidation(project, worktreeDir));
+  if (failed) throw validationFailedError(failed, worktreeDir);
+  validateBlockedFiles(project, worktreeDir, baseBranch, remote);
+}
+
+function validateBlockedFiles(project: string, worktreeDir: string, baseBranch: string, remote: string): void {
+  const blockedFiles = getBlockedFiles(project);
+  if (blockedFiles.length > 0) {
+    const violations = validateNoBlockedFiles(worktreeDir, baseBranch, blockedFiles, remote);
+    if (violations.length > 0) {
+      throw new Error(
+        `Blocked file violation — the agent modified files that are off-limits:\n${violations.map((v) => `  - ${v}`).join('\n')}\n\nNo code was pushed. Fix the blocked file patterns in projects.json or adjust the ticket scope.`
+      );
+    }
+    log(GREEN, 'VALIDATE', 'No blocked file violations');
+  }
+}
+
+// Steps of an execute run, in order, as recorded in the job ledger
+const EXECUTE_PHASES = ['setup', 'agent', 'diff-review', 'validation', 'push', 'pr', 'ci'];
+
+/** Where a run cut off by a crash or restart picks up again. */
+interface ResumePoint {
+  /** Phase the run was in when it stopped. Unknown counts as before the agent finished. */
+  phase?: string;
+  /** Branch the run was working on, in case the ticket title changed since. */
+  branch?: string;
+  /** Spent before the interruption — counts toward EXECUTE_BUDGET_USD. */
+  cost: number;
+  /** Last commit the diff review approved — anything after it still needs a review. */
+  reviewedCommit?: string;
+}
+
+/** Whether a run that stopped in `phase` had already finished `step`. */
+function resumesAfter(phase: string | undefined, step: string): boolean {
+  return phase !== undefined && EXECUTE_PHASES.indexOf(phase) > EXECUTE_PHASES.indexOf(step);
+}
+
+/** Branch a fresh execute run creates for the ticket. */
+function executeBranchName(ticket: Ticket): string {
   const shortId = ticket.id.replace(/-/g, '').slice(0, 8);
   const slug = ticket.title
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-|-$/g, '')
     .slice(0, 40);
-  const branchName = `notion/${shortId}/${slug}`;
-  const worktreeDir = join(projectDir, '.worktrees', branchName.replace(/\//g, '_'));
+  return `notion/${shortId}/${slug}`;
+}
+
+function executeWorktreeDir(projectDir: string, branchName: string): string {
+  return join(projectDir, '.worktrees', branchName.replace(/\//g, '_'));
+}
+
+/** Commits on `branchName` that `baseRef` doesn't have — 0 if the branch doesn't exist. */
+function countBranchCommits(projectDir: string, baseRef: string, branchName: string): number {
+  try {
+    return Number(execSync(`git rev-list --count ${shellEscape(baseRef)}..${shellEscape(branchName)}`, { cwd: projectDir, stdio: 'pipe' }).toString().trim());
+  } catch {
+    // Branch never created or already deleted
+    return 0;
+  }
+}
+
+async function runExecuteAgent(ticket: TicketDetails, resume?: ResumePoint): Promise<void> {
+  const projectDir = getProjectDir(ticket.project);
+  if (!projectDir) {
+    throw new Error(`Unknown project: "${ticket.project}"`);
+  }
+
+  const branchName = resume?.branch ?? executeBranchName(ticket);
+  const worktreeDir = executeWorktreeDir(projectDir, branchName);
 
   // Resolve per-project guardrails
-  const baseBranch = getBaseBranch(ticket.project) || getDefaultBranch(projectDir);
-  const blockedFiles = getBlockedFiles(ticket.project);
+  const remote = getRemote(ticket.project);
+  const baseBranch = getBaseBranch(ticket.project) || getDefaultBranch(projectDir, remote);
+  const baseRef = `${remote}/${baseBranch}`;
   const skipPR = getSkipPR(ticket.project);
-  const devAccess = getDevAccess(ticket.project);
-  const envFile = getEnvFile(ticket.project);
 
-  log(MAGENTA, 'EXECUTE', `Starting execution for "${ticket.title}" on branch ${branchName}`);
   const startTime = Date.now();
+  if (resume) {
+    // Only the commits of a finished agent run survive an interruption. A run
+    // cut off mid-agent may have committed half the work — that's not resumed.
+    const phase = resume.phase ?? 'an unknown phase';
+    const commits = countBranchCommits(projectDir, baseRef, branchName);
+    const unusable = !resumesAfter(resume.phase, 'agent')
+      ? `Interrupted during ${phase}, before the agent finished`
+      : commits === 0 ? `Interrupted during ${phase} before the agent committed anything` : '';
+    if (unusable) {
+      await source.addComment(ticket.id, [
+        '❌ Execute Failed',
+        `Error: ${unusable}`,
+        'Phase: recovery',
+      ].join('\n'));
+      throw new Error(`${unusable} (branch ${branchName}). Move the ticket back to ${CONFIG.COLUMNS.EXECUTE} to start over.`);
+    }
+    log(MAGENTA, 'RECOVER', `Resuming "${ticket.title}" after ${phase}: ${commits} commit(s) on ${branchName}`);
+    await source.addComment(ticket.id, [
+      '♻️ Execute Resumed',
+      `Interrupted during: ${phase}`,
+      `Branch: ${branchName} (${commits} commit(s))`,
+    ].join('\n'));
+  } else {
+    log(MAGENTA, 'EXECUTE', `Starting execution for "${ticket.title}" on branch ${branchName}`);
+    // Move to In Progress immediately
+    await source.moveTicketStatus(ticket.id, CONFIG.COLUMNS.IN_PROGRESS);
+  }
 
-  // Move to In Progress immediately
-  await moveTicketStatus(ticket.id, CONFIG.COLUMNS.IN_PROGRESS);
-
-  // Git: create isolated worktree (fetches origin/<baseBranch> first)
-  createWorktree(projectDir, branchName, worktreeDir, baseBranch);
+  // Git: create isolated worktree (fetches <remote>/<baseBranch> first)
+  // A resumed run keeps its phase through setup — an interruption there still finds the agent's work done
+  jobs.update(ticket.id, { phase: resume?.phase ?? 'setup', branch: branchName, worktreeDir });
+  createWorktree(projectDir, branchName, worktreeDir, baseBranch, remote);
 
-  let cost = 0;
+  let cost = resume?.cost ?? 0;
   let commitCount = 0;
   let retroOutcome: { success: boolean; error?: string; diffReviewIssues?: string[]; buildFailed?: boolean } = { success: false };
 
   try {
-    const promptParts = [
-      executePrompt,
-      '',
-      '## Ticket',
-      `**Title**: ${ticket.title}`,
-      '',
-      '**Description**:',
-      ticket.description,
-      '',
-      '**Spec**:',
-      ticket.spec ?? '(no spec provided)',
-      '',
-      '**Impact Analysis**:',
-      ticket.impact ?? '(no impact analysis provided)',
-      '',
-      '**Page Content**:',
-      ticket.bodyBlocks,
-    ];
+    await prepareWorktree(ticket.project, projectDir, worktreeDir);
+    const attachments = await prepareAttachments(ticket, projectDir);
 
-    // Highlight acceptance tests if present in the spec
-    if (ticket.spec && ticket.spec.includes('## Acceptance Tests')) {
-      promptParts.push(
+    // A resumed run already has the agent's commits on the branch
+    if (!resumesAfter(resume?.phase, 'agent')) {
+      const promptParts = [
+        executePrompt,
         '',
-        '**IMPORTANT**: The spec above includes Acceptance Tests. Write test files FIRST, then implement code to make them pass. Run the tests to verify.',
-      );
-    }
-
-    if (blockedFiles.length > 0) {
-      promptParts.push(
+        '## Ticket',
+        `**Title**: ${ticket.title}`,
         '',
-        '## BLOCKED FILES — DO NOT TOUCH',
-        'The following file patterns are off-limits. Do NOT create, modify, or delete any files matching these patterns. Violations will cause the entire run to fail.',
+        '**Description**:',
+        ticket.description,
         '',
-        ...blockedFiles.map((p) => `- \`${p}\``),
-      );
-    }
-
-    if (devAccess) {
-      promptParts.push(
+        '**Spec**:',
+        ticket.spec ?? '(no spec provided)',
         '',
-        '## DEV ENVIRONMENT ACCESS',
-        'You have access to run scripts and dev tools in this project. Use this to:',
-        '- Write and run scripts to understand database schema or existing data',
-        '- Hit local API endpoints with curl to understand response shapes',
-        '- Run tests to verify your implementation',
-        '- Use ORM tools (e.g. `npx prisma studio`) to inspect the data model',
+        '**Impact Analysis**:',
+        ticket.impact ?? '(no impact analysis provided)',
         '',
-        '### Rules',
-        '- Do NOT run database migrations (`prisma migrate`, `db push`, `alembic`, etc.)',
-        '- Do NOT drop, truncate, or bulk-delete data',
-        '- Do NOT make requests to external/production hosts — only localhost and 127.0.0.1',
-        '- Clean up any temporary scripts you create before your final commit',
-        '- If you create test data, document it in a commit message so reviewers know',
-      );
-    }
+        '**Page Content**:',
+        ticket.bodyBlocks,
+        ...formatAttachmentsSection(attachments),
+      ];
 
-    const learnings = readLearnings(projectDir);
-    if (learnings) {
-      promptParts.push('', '## Project Learnings', 'These are patterns and lessons learned from previous work on this project:', '', learnings);
-    }
+      // Files the review expects to change, so scope creep is a deliberate choice
+      if (ticket.review && ticket.review.affectedFiles.length > 0) {
+        promptParts.push(
+          '',
+          '**Expected Scope** (files the review expects you to change — touch others only when the spec needs it):',
+          ...ticket.review.affectedFiles.map((f) => `- ${f}`),
+        );
+      }
+
+      // Highlight acceptance tests if present in the spec
+      if (ticket.spec && ticket.spec.includes('## Acceptance Tests')) {
+        promptParts.push(
+          '',
+          '**IMPORTANT**: The spec above includes Acceptance Tests. Write test files FIRST, then implement code to make them pass. Run the tests to verify.',
+        );
+      }
+
+      promptParts.push(...projectGuardrailSections(ticket.project, projectDir));
 
-    const prompt = promptParts.join('\n');
+      const prompt = promptParts.join('\n');
 
-    // Build agent environment when envFile is configured
-    let agentEnv: Record<string, string | undefined> | undefined;
-    if (envFile) {
-      const projectEnv = parseEnvFile(join(projectDir, envFile));
-      agentEnv = { ...process.env, ...projectEnv };
+      jobs.update(ticket.id, { phase: 'agent' });
+      const run = await runCodingAgent({
+        prompt,
+        project: ticket.project,
+        projectDir,
+        worktreeDir,
+        // Attachments live outside the worktree so they can't be committed
+        additionalDirectories: attachments.length > 0 ? [attachmentsDir(projectDir, ticket.id)] : undefined,
+        maxTurns: CONFIG.EXECUTE_MAX_TURNS,
+        maxBudgetUsd: CONFIG.EXECUTE_BUDGET_USD,
+      });
+      cost = run.cost;
+      if (run.subtype !== 'success') {
+        throw new Error(`Execute agent failed: ${run.subtype}`);
+      }
     }
 
-    const baseTools = [
-      'Read', 'Glob', 'Grep', 'Edit', 'Write', 'Task',
-      'Bash(git add:*)', 'Bash(git commit:*)', 'Bash(git status:*)',
-      'Bash(git diff:*)', 'Bash(git log:*)',
-      'Bash(npm run build:*)', 'Bash(npm test:*)', 'Bash(npx tsc:*)',
-    ];
+    // Post-execution: diff review. Rejections go back to the agent for fix-up
+    // rounds; the ticket only fails once the rounds or the budget run out.
+    let fixupRounds = 0;
+    const reviewDiff = async (): Promise<void> => {
+      jobs.update(ticket.id, { phase: 'diff-review', cost });
+      log(YELLOW, 'REVIEW', 'Running diff review...');
+      let diffReview = await runDiffReviewAgent(worktreeDir, baseRef, ticket.spec ?? '', ticket.description, ticket.review);
+      cost += diffReview.cost;
+      while (!diffReview.result.approved) {
+        const issues = diffReview.result.issues;
+        const budgetLeft = CONFIG.EXECUTE_BUDGET_USD - cost;
+        if (fixupRounds >= CONFIG.DIFF_REVIEW_MAX_ROUNDS || budgetLeft <= 0) {
+          retroOutcome = { success: false, error: 'Diff review rejected the changes', diffReviewIssues: issues };
+          const after = fixupRounds > 0 ? ` after ${fixupRounds} fix-up round(s)` : '';
+          throw new Error(`Diff review failed${after}${budgetLeft <= 0 ? ' (budget used up)' : ''}:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+        }
 
-    const devTools = [
-      'Bash(npx tsx:*)',
-      'Bash(node:*)',
-      'Bash(npm run:*)',
-      'Bash(npx vitest:*)',
-      'Bash(npx jest:*)',
-      'Bash(npx prisma:*)',
-      'Bash(python:*)',
-      'Bash(curl http://localhost:*)',
-      'Bash(curl http://127.0.0.1:*)',
-    ];
+        fixupRounds++;
+        log(YELLOW, 'REVIEW', `Diff review rejected — fix-up round ${fixupRounds}/${CONFIG.DIFF_REVIEW_MAX_ROUNDS}`);
+        await source.addComment(ticket.id, [
+          `🔁 Diff Review Fix-up ${fixupRounds}/${CONFIG.DIFF_REVIEW_MAX_ROUNDS}`,
+          ...issues.map((i) => `- ${i}`),
+        ].join('\n'));
 
-    const allowedTools = devAccess ? [...baseTools, ...devTools] : baseTools;
+        const fixup = await runCodingAgent({
+          prompt: [
+            diffFixupPrompt,
+            '',
+            '## Ticket',
+            `**Title**: ${ticket.title}`,
+            '',
+            '**Spec**:',
+            ticket.spec ?? '(no spec provided)',
+            '',
+            '## Review Issues',
+            ...issues.map((i) => `- ${i}`),
+            ...projectGuardrailSections(ticket.project, projectDir),
+          ].join('\n'),
+          project: ticket.project,
+          projectDir,
+          worktreeDir,
+          additionalDirectories: attachments.length > 0 ? [attachmentsDir(projectDir, ticket.id)] : undefined,
+          maxTurns: CONFIG.DIFF_FIXUP_MAX_TURNS,
+          maxBudgetUsd: budgetLeft,
+        });
+        cost += fixup.cost;
+        if (fixup.subtype !== 'success') {
+          throw new Error(`Diff review fix-up agent failed: ${fixup.subtype}`);
+        }
 
-    const messages = query({
-      prompt,
-      options: {
-        model: CONFIG.EXECUTE_MODEL,
-        cwd: worktreeDir,
-        allowedTools,
-        env: agentEnv,
-        disallowedTools: ['WebFetch', 'WebSearch'],
-        maxTurns: CONFIG.EXECUTE_MAX_TURNS,
-        maxBudgetUsd: CONFIG.EXECUTE_BUDGET_USD,
-        permissionMode: 'acceptEdits',
-        settingSources: ['project'],
-        systemPrompt: { type: 'preset', preset: 'claude_code' },
-        stderr: (data: string) => {
-          if (data.trim()) log(DIM, 'STDERR', data.trim());
-        },
-      },
-    });
+        log(YELLOW, 'REVIEW', 'Re-running diff review...');
+        diffReview = await runDiffReviewAgent(worktreeDir, baseRef, ticket.spec ?? '', ticket.description, ticket.review);
+        cost += diffReview.cost;
+      }
+      log(GREEN, 'REVIEW', `Diff review passed: ${diffReview.result.summary}`);
+      jobs.update(ticket.id, { reviewedCommit: headCommit(worktreeDir) });
+    };
 
-    for await (const message of messages) {
-      if (message.type === 'result') {
-        cost = message.total_cost_usd ?? 0;
-        if (message.subtype !== 'success') {
-          throw new Error(`Execute agent failed: ${message.subtype}`);
+    // Post-execution: validation stages. A failed required stage goes back to
+    // the agent with its output for repair attempts before the ticket fails.
+    let validation: StageResult[] = [];
+    let buildRepairs = 0;
+    const validateAndRepair = async (): Promise<void> => {
+      jobs.update(ticket.id, { phase: 'validation', cost });
+      validation = await runValidation(ticket.project, worktreeDir);
+      for (let failed = blockingFailure(validation); failed; failed = blockingFailure(validation)) {
+        const budgetLeft = CONFIG.EXECUTE_BUDGET_USD - cost;
+        if (buildRepairs >= CONFIG.BUILD_REPAIR_MAX_ATTEMPTS || budgetLeft <= 0) {
+          throw validationFailedError(failed, worktreeDir);
         }
+
+        buildRepairs++;
+        log(YELLOW, 'VALIDATE', `${failed.name} failed — repair attempt ${buildRepairs}/${CONFIG.BUILD_REPAIR_MAX_ATTEMPTS}`);
+        await source.addComment(ticket.id, [
+          `🔧 Build Repair ${buildRepairs}/${CONFIG.BUILD_REPAIR_MAX_ATTEMPTS}`,
+          `Stage: ${failed.name} (${failed.command})`,
+          tailLog(failed.output, 500),
+        ].join('\n'));
+
+        const repair = await runCodingAgent({
+          prompt: [
+            buildRepairPrompt,
+            '',
+            '## Ticket',
+            `**Title**: ${ticket.title}`,
+            '',
+            '**Spec**:',
+            ticket.spec ?? '(no spec provided)',
+            '',
+            `## Failed Stage: ${failed.name}`,
+            `Command: \`${failed.command}\``,
+            '',
+            '```',
+            tailLog(failed.output, CONFIG.BUILD_LOG_MAX_CHARS),
+            '```',
+            ...projectGuardrailSections(ticket.project, projectDir),
+          ].join('\n'),
+          project: ticket.project,
+          projectDir,
+          worktreeDir,
+          maxTurns: CONFIG.BUILD_REPAIR_MAX_TURNS,
+          maxBudgetUsd: budgetLeft,
+        });
+        cost += repair.cost;
+        if (repair.subtype !== 'success') {
+          throw new Error(`Build repair agent failed: ${repair.subtype}\n${validationFailedError(failed, worktreeDir).message}`);
+        }
+
+        // Re-run every stage — a fix for one can break an earlier one
+        validation = await runValidation(ticket.project, worktreeDir);
       }
+    };
+
+    // A run that stopped after the review passed doesn't repeat it, unless
+    // commits (build repairs) landed after the approved one. Repair commits
+    // are reviewed like any others, and fix-ups validated again, until both
+    // pass on the same commit — every round uses up a fix-up or a repair.
+    if (!resume || !resumesAfter(resume.phase, 'diff-review') || resume.reviewedCommit !== headCommit(worktreeDir)) {
+      await reviewDiff();
+    } else {
+      jobs.update(ticket.id, { reviewedCommit: resume.reviewedCommit });
+    }
+    for (;;) {
+      const validatedFrom = headCommit(worktreeDir);
+      await validateAndRepair();
+      const repairedTo = headCommit(worktreeDir);
+      if (repairedTo === validatedFrom) break;
+      log(YELLOW, 'REVIEW', 'Build repairs added commits — reviewing them');
+      await reviewDiff();
+      if (headCommit(worktreeDir) === repairedTo) break;
+    }
+
+    // Post-execution: validate no blocked files were touched
+    validateBlockedFiles(ticket.project, worktreeDir, baseBranch, remote);
+
+    // Scope check: files changed that the review didn't expect. Reported, not
+    // blocking — the diff reviewer has already judged whether they belong.
+    const outOfScope = findOutOfScopeFiles(listChangedFiles(worktreeDir, baseRef), ticket.review?.affectedFiles ?? []);
+    if (outOfScope.length > 0) {
+      log(YELLOW, 'SCOPE', `${outOfScope.length} file(s) outside the reviewed scope: ${outOfScope.join(', ')}`);
     }
 
-    // Count commits made
+    // Count commits made (including fix-ups and build repairs)
     try {
       const commitLog = execSync(`git log ${shellEscape(baseBranch)}..${shellEscape(branchName)} --oneline`, { cwd: worktreeDir, stdio: 'pipe' });
       commitCount = commitLog.toString().trim().split('\n').filter(Boolean).length;
@@ -813,91 +1207,57 @@ async function runExecuteAgent(ticket: TicketDetails): Promise<void> {
       commitCount = 0;
     }
 
-    // Post-execution: diff review
-    log(YELLOW, 'REVIEW', 'Running diff review...');
-    const diffReview = await runDiffReviewAgent(worktreeDir, baseBranch, ticket.spec ?? '', ticket.description, []);
-    cost += diffReview.cost;
-    if (!diffReview.result.approved) {
-      retroOutcome = { success: false, error: 'Diff review rejected the changes', diffReviewIssues: diffReview.result.issues };
-      throw new Error(`Diff review failed:\n${diffReview.result.issues.map(i => `  - ${i}`).join('\n')}`);
-    }
-    log(GREEN, 'REVIEW', `Diff review passed: ${diffReview.result.summary}`);
-
-    // Post-execution: validate build
-    const buildCmd = getBuildCommand(ticket.project);
-    let buildPassed = true;
-    if (buildCmd) {
-      log(YELLOW, 'VALIDATE', `Running: ${buildCmd}`);
-      try {
-        execSync(buildCmd, { cwd: worktreeDir, stdio: 'pipe', timeout: 120_000 });
-        log(GREEN, 'VALIDATE', 'Build passed');
-      } catch (e) {
-        buildPassed = false;
-        let detail = '';
-        if (e && typeof e === 'object' && 'stderr' in e) {
-          detail = String((e as { stderr: unknown }).stderr).slice(0, 500);
-        }
-        if (!detail && e && typeof e === 'object' && 'stdout' in e) {
-          detail = String((e as { stdout: unknown }).stdout).slice(0, 500);
-        }
-        throw new Error(`Build validation failed.\nCommand: ${buildCmd}\nDirectory: ${worktreeDir}\n${detail ? `Output:\n${detail}` : (e instanceof Error ? e.message : String(e))}`);
-      }
-    }
-
-    // Post-execution: validate no blocked files were touched
-    if (blockedFiles.length > 0) {
-      const violations = validateNoBlockedFiles(worktreeDir, baseBranch, blockedFiles);
-      if (violations.length > 0) {
-        throw new Error(
-          `Blocked file violation — the agent modified files that are off-limits:\n${violations.map((v) => `  - ${v}`).join('\n')}\n\nNo code was pushed. Fix the blocked file patterns in projects.json or adjust the ticket scope.`
-        );
-      }
-      log(GREEN, 'VALIDATE', 'No blocked file violations');
-    }
-
     // Push branch
-    log(CYAN, 'PUSH', `Pushing ${branchName}`);
-    execSync(`git push -u origin ${shellEscape(branchName)}`, { cwd: worktreeDir, stdio: 'pipe' });
+    jobs.update(ticket.id, { phase: 'push', cost });
+    log(CYAN, 'PUSH', `Pushing ${branchName} to ${remote}`);
+    execSync(`git push -u ${shellEscape(remote)} ${shellEscape(branchName)}`, { cwd: worktreeDir, stdio: 'pipe' });
 
     // Create PR (unless skipPR is configured)
-    let prUrl = '';
+    let pr: PullRequest | undefined;
     if (skipPR) {
       log(YELLOW, 'PR', 'Skipping PR creation (skipPR enabled for this project)');
     } else {
+      const gitHost = getGitHost(ticket.project);
+      jobs.update(ticket.id, { phase: 'pr' });
       try {
-        log(CYAN, 'PR', 'Creating pull request...');
-        const prBody = [
-          '## Summary',
-          '',
-          ticket.spec ?? ticket.description,
-          '',
-          '## Impact',
-          '',
-          ticket.impact ?? '_No impact analysis_',
-          '',
-          `## Notion Ticket`,
-          '',
-          `[View in Notion](https://www.notion.so/${ticket.id.replace(/-/g, '')})`,
-          '',
-          '---',
-          `Cost: $${cost.toFixed(2)} | Review: Ease ${ticket.ease ?? '?'}/10, Confidence ${ticket.confidence ?? '?'}/10`,
-        ].join('\n');
-
-        const prResult = execSync(
-          `gh pr create --title ${shellEscape(ticket.title)} --body ${shellEscape(prBody)} --base ${shellEscape(baseBranch)} --head ${branchName}`,
-          { cwd: worktreeDir, stdio: 'pipe', timeout: 30_000 },
+        log(CYAN, 'PR', `Creating pull request on ${gitHost.name}...`);
+        const prConfig = getPullRequestConfig(ticket.project);
+        const prBody = renderPullRequestBody(
+          {
+            summary: ticket.spec ?? ticket.description,
+            impact: ticket.impact ?? '_No impact analysis_',
+            ticket: { heading: `${source.name} Ticket`, link: `[View in ${source.name}](${source.ticketUrl(ticket.id)})` },
+            validation: validation.length > 0 ? formatValidationTable(validation) : undefined,
+            footer: `Cost: $${cost.toFixed(2)} | Review: Ease ${ticket.ease ?? '?'}/10, Confidence ${ticket.confidence ?? '?'}/10`,
+          },
+          prConfig.useTemplate ? findPullRequestTemplate(worktreeDir) : null,
         );
-        prUrl = prResult.toString().trim();
-        log(GREEN, 'PR', `Created: ${prUrl}`);
+
+        pr = await gitHost.createPullRequest(worktreeDir, {
+          title: ticket.title,
+          body: prBody,
+          base: baseBranch,
+          head: branchName,
+          draft: prConfig.draft,
+          reviewers: prConfig.reviewers,
+          teamReviewers: prConfig.teamReviewers,
+          labels: prConfig.labels,
+          assignees: prConfig.assignees,
+        });
+        log(GREEN, 'PR', `Created: ${pr.url}`);
+        for (const warning of pr.warnings ?? []) log(YELLOW, 'PR', warning);
       } catch (e) {
-        // PR creation is best-effort — don't fail the ticket over it
-        log(YELLOW, 'PR', `Failed to create PR: ${e instanceof Error ? e.message : e}`);
+        // The branch is already pushed — record it so a retry or a human can pick it up
+        await source.writeExecutionResults(ticket.id, { branch: branchName, cost });
+        throw new Error(`Branch ${branchName} was pushed, but the ${gitHost.name} pull request could not be created: ${e instanceof Error ? e.message : e}`);
       }
     }
+    const prUrl = pr?.url ?? '';
+    if (prUrl) jobs.update(ticket.id, { prUrl });
 
-    // Update Notion
-    await writeExecutionResults(ticket.id, { branch: branchName, cost, prUrl });
-    await moveTicketStatus(ticket.id, CONFIG.COLUMNS.PR_READY);
+    // Update the ticket
+    await source.writeExecutionResults(ticket.id, { branch: branchName, cost, prUrl, prNumber: pr?.number, prNodeId: pr?.nodeId });
+    await source.moveTicketStatus(ticket.id, CONFIG.COLUMNS.PR_READY);
 
     const duration = Math.round((Date.now() - startTime) / 1000);
 
@@ -906,15 +1266,29 @@ async function runExecuteAgent(ticket: TicketDetails): Promise<void> {
       '✅ Execute Complete',
       `Branch: ${branchName}`,
       prUrl ? `PR: ${prUrl}` : 'PR: Not created',
-      `Build: ${buildPassed ? 'PASS' : 'N/A'}`,
+      ...(pr?.warnings ?? []).map((warning) => `PR warning: ${warning}`),
+      formatValidationSummary(validation),
       `Commits: ${commitCount}`,
+      fixupRounds > 0 ? `Diff review fix-ups: ${fixupRounds}` : '',
+      buildRepairs > 0 ? `Build repairs: ${buildRepairs}` : '',
+      outOfScope.length > 0 ? `Outside review scope: ${outOfScope.join(', ')}` : '',
       `Cost: $${cost.toFixed(2)} | Duration: ${duration}s`,
-    ].join('\n');
-    await addComment(ticket.id, comment);
+    ].filter(Boolean).join('\n');
+    await source.addComment(ticket.id, comment);
 
     retroOutcome = { success: true };
 
     log(GREEN, 'EXECUTE', `Done: branch=${branchName} cost=$${cost.toFixed(2)}${prUrl ? ` pr=${prUrl}` : ''}`);
+
+    // Post-PR: wait for CI and repair failures on the same branch
+    if (pr && getWatchCI(ticket.project)) {
+      jobs.update(ticket.id, { phase: 'ci' });
+      const repairCost = await watchChecksAndRepair(ticket, { projectDir, worktreeDir, branchName, baseBranch, remote, prUrl, cost });
+      if (repairCost > 0) {
+        cost += repairCost;
+        await source.writeExecutionResults(ticket.id, { branch: branchName, cost, prUrl, prNumber: pr.number, prNodeId: pr.nodeId });
+      }
+    }
   } catch (error) {
     // On failure, add failure audit trail comment
     const duration = Math.round((Date.now() - startTime) / 1000);
@@ -925,7 +1299,7 @@ async function runExecuteAgent(ticket: TicketDetails): Promise<void> {
       `Phase: execution`,
       `Cost: $${cost.toFixed(2)} | Duration: ${duration}s`,
     ].join('\n');
-    await addComment(ticket.id, comment);
+    await source.addComment(ticket.id, comment);
     retroOutcome = {
       success: false,
       error: errMsg,
@@ -933,18 +1307,282 @@ async function runExecuteAgent(ticket: TicketDetails): Promise<void> {
     };
     throw error;
   } finally {
+    jobs.update(ticket.id, { cost });
+
     // Run retro before cleaning up worktree (so it can read the diff)
     log(DIM, 'RETRO', 'Running post-execution retrospective...');
-    await runRetroAgent(projectDir, worktreeDir, baseBranch, ticket, retroOutcome);
+    await runRetroAgent(projectDir, worktreeDir, baseRef, ticket, retroOutcome);
 
     // Always clean up the worktree
     removeWorktree(projectDir, worktreeDir);
   }
 }
 
+interface CIWatchContext {
+  projectDir: string;
+  worktreeDir: string;
+  branchName: string;
+  baseBranch: string;
+  remote: string;
+  prUrl: string;
+  /** Spent on the ticket so far — repairs get what's left of EXECUTE_BUDGET_USD. */
+  cost: number;
+}
+
+/** Poll the checks of `sha` until they finish, none show up, or the watch times out. */
+async function waitForChecks(ticket: TicketDetails, prUrl: string, sha: string): Promise<ChecksOutcome> {
+  const gitHost = getGitHost(ticket.project);
+  const startedAt = Date.now();
+  while (!shuttingDown) {
+    const outcome = summarizeChecks(await gitHost.fetchChecks(prUrl, sha));
+    if (outcome.state === 'success' || outcome.state === 'failure') return outcome;
+    // CI needs a moment to register checks for a fresh push
+    if (outcome.state === 'none' && Date.now() - startedAt >= CONFIG.CI_CHECKS_APPEAR_MS) return outcome;
+    if (Date.now() - startedAt >= CONFIG.CI_WATCH_TIMEOUT_MS) return { state: 'pending' };
+
+    // Still working — keep the lock from being released as stale
+    const lock = activeLocks.get(ticket.id);
+    if (lock) lock.startedAt = Date.now();
+    await sleep(CONFIG.CI_POLL_INTERVAL_MS);
+  }
+  return { state: 'pending' };
+}
+
+/**
+ * Watch the PR's CI checks. When one fails, run a repair agent with the job
+ * logs, push its fix and watch again — up to CI_REPAIR_MAX_ATTEMPTS times,
+ * within the ticket's budget. Outcomes are reported as ticket comments; the
+ * ticket stays in PR Ready either way. Returns the repair cost.
+ */
+async function watchChecksAndRepair(ticket: TicketDetails, ctx: CIWatchContext): Promise<number> {
+  const gitHost = getGitHost(ticket.project);
+  let repairCost = 0;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const sha = execSync('git rev-parse HEAD', { cwd: ctx.worktreeDir, stdio: 'pipe' }).toString().trim();
+      log(CYAN, 'CI', `Waiting for checks on ${sha.slice(0, 7)}...`);
+      const outcome = await waitForChecks(ticket, ctx.prUrl, sha);
+
+      if (outcome.state === 'none') {
+        log(DIM, 'CI', 'No checks reported for this PR');
+        return repairCost;
+      }
+      if (outcome.state === 'pending') {
+        await source.addComment(ticket.id, `⏳ CI Still Running\nStopped watching after ${Math.round(CONFIG.CI_WATCH_TIMEOUT_MS / 60_000)} minutes.\nPR: ${ctx.prUrl}`);
+        return repairCost;
+      }
+      if (outcome.state === 'success') {
+        log(GREEN, 'CI', 'All checks passed');
+        await source.addComment(ticket.id, [
+          '✅ CI Passed',
+          `PR: ${ctx.prUrl}`,
+          attempt > 0 ? `Repairs: ${attempt} | Repair cost: $${repairCost.toFixed(2)}` : '',
+        ].filter(Boolean).join('\n'));
+        return repairCost;
+      }
+
+      const failedNames = outcome.failed.map((c) => c.name).join(', ');
+      const budgetLeft = CONFIG.EXECUTE_BUDGET_USD - ctx.cost - repairCost;
+      if (attempt >= CONFIG.CI_REPAIR_MAX_ATTEMPTS || budgetLeft <= 0) {
+        log(RED, 'CI', `Checks failed: ${failedNames} — not repairing again`);
+        await source.addComment(ticket.id, [
+          '❌ CI Failed',
+          `Failed checks: ${failedNames}`,
+          attempt >= CONFIG.CI_REPAIR_MAX_ATTEMPTS ? `Repair attempts used: ${attempt}/${CONFIG.CI_REPAIR_MAX_ATTEMPTS}` : 'Ticket budget used up',
+          `PR: ${ctx.prUrl}`,
+        ].join('\n'));
+        return repairCost;
+      }
+
+      log(YELLOW, 'CI', `Checks failed: ${failedNames} — repair attempt ${attempt + 1}/${CONFIG.CI_REPAIR_MAX_ATTEMPTS}`);
+      const failures = [];
+      for (const check of outcome.failed) {
+        let checkLog = '';
+        try {
+          checkLog = tailLog(await gitHost.fetchCheckLog(ctx.prUrl, check.id), CONFIG.CI_LOG_MAX_CHARS);
+        } catch (e) {
+          // Best-effort: the agent can still work from the check name and the diff
+          log(YELLOW, 'CI', `Could not fetch the log of "${check.name}": ${e instanceof Error ? e.message : e}`);
+        }
+        failures.push({ check, log: checkLog });
+      }
+
+      const prompt = [
+        ciRepairPrompt,
+        '',
+        '## Ticket',
+        `**Title**: ${ticket.title}`,
+        '',
+        '**Spec**:',
+        ticket.spec ?? ticket.description,
+        '',
+        ...formatFailedChecks(failures),
+        ...projectGuardrailSections(ticket.project, ctx.projectDir),
+      ].join('\n');
+
+      const run = await runCodingAgent({
+        prompt,
+        project: ticket.project,
+        projectDir: ctx.projectDir,
+        worktreeDir: ctx.worktreeDir,
+        maxTurns: CONFIG.CI_REPAIR_MAX_TURNS,
+        maxBudgetUsd: budgetLeft,
+      });
+      repairCost += run.cost;
+      if (run.subtype !== 'success') {
+        throw new Error(`CI repair agent failed: ${run.subtype}`);
+      }
+
+      const commitCount = Number(execSync(`git rev-list --count ${sha}..HEAD`, { cwd: ctx.worktreeDir, stdio: 'pipe' }).toString().trim());
+      if (commitCount === 0) {
+        await source.addComment(ticket.id, [
+          '❌ CI Failed',
+          `Failed checks: ${failedNames}`,
+          'The repair agent made no changes:',
+          run.text.slice(0, 500),
+          `Cost: $${run.cost.toFixed(2)}`,
+        ].join('\n'));
+        return repairCost;
+      }
+
+      await validateChanges(ticket.project, ctx.worktreeDir, ctx.baseBranch, ctx.remote);
+      execSync(`git push ${shellEscape(ctx.remote)} ${shellEscape(ctx.branchName)}`, { cwd: ctx.worktreeDir, stdio: 'pipe' });
+      await source.addComment(ticket.id, [
+        `🔧 CI Repair ${attempt + 1}/${CONFIG.CI_REPAIR_MAX_ATTEMPTS}`,
+        `Failed checks: ${failedNames}`,
+        `Pushed ${commitCount} commit(s)`,
+        `Cost: $${run.cost.toFixed(2)}`,
+      ].join('\n'));
+    }
+  } catch (error) {
+    // The PR is open and recorded — a broken CI watch must not fail the ticket
+    const errMsg = error instanceof Error ? error.message : String(error);
+    log(RED, 'CI', `CI watch failed for "${ticket.title}": ${errMsg}`);
+    await source.addComment(ticket.id, `❌ CI Watch Failed\nError: ${errMsg.slice(0, 500)}\nPR: ${ctx.prUrl}`);
+    return repairCost;
+  }
+}
+
+/**
+ * Follow-up run for a PR Ready ticket: check out the PR branch, let the
+ * agent work through the unresolved review threads, push its commits and
+ * reply to each thread. Failures are reported on the threads and the ticket
+ * stays in PR Ready — the PR itself is still good.
+ */
+async function runAddressReviewAgent(ticket: TicketDetails): Promise<void> {
+  const projectDir = getProjectDir(ticket.project);
+  if (!projectDir) {
+    throw new Error(`Unknown project: "${ticket.project}"`);
+  }
+  if (!ticket.prUrl) return;
+
+  const gitHost = getGitHost(ticket.project);
+  const pr = await gitHost.fetchPullRequestStatus(ticket.prUrl);
+  const threads = pendingReviewThreads(await gitHost.fetchReviewThreads(ticket.prUrl));
+  if (pr.state !== 'open' || !pr.head || threads.length === 0) return;
+
+  const branchName = pr.head;
+  const worktreeDir = join(projectDir, '.worktrees', branchName.replace(/\//g, '_'));
+  const remote = getRemote(ticket.project);
+  const baseBranch = getBaseBranch(ticket.project) || getDefaultBranch(projectDir, remote);
+
+  log(MAGENTA, 'ADDRESS', `Addressing ${threads.length} review thread(s) on "${ticket.title}"`);
+  const startTime = Date.now();
+  jobs.update(ticket.id, { phase: 'agent', branch: branchName, worktreeDir, prUrl: ticket.prUrl });
+  attachWorktree(projectDir, branchName, worktreeDir, remote);
+
+  let cost = 0;
+  try {
+    await prepareWorktree(ticket.project, projectDir, worktreeDir);
+    const startSha = execSync('git rev-parse HEAD', { cwd: worktreeDir, stdio: 'pipe' }).toString().trim();
+
+    const prompt = [
+      addressReviewPrompt,
+      '',
+      '## Ticket',
+      `**Title**: ${ticket.title}`,
+      '',
+      '**Spec**:',
+      ticket.spec ?? ticket.description,
+      '',
+      ...formatReviewThreads(threads),
+      ...projectGuardrailSections(ticket.project, projectDir),
+    ].join('\n');
+
+    const run = await runCodingAgent({
+      prompt,
+      project: ticket.project,
+      projectDir,
+      worktreeDir,
+      maxTurns: CONFIG.ADDRESS_REVIEW_MAX_TURNS,
+      maxBudgetUsd: CONFIG.ADDRESS_REVIEW_BUDGET_USD,
+      outputSchema: ADDRESS_REVIEW_SCHEMA as Record<string, unknown>,
+    });
+    cost = run.cost;
+    if (run.subtype !== 'success') {
+      throw new Error(`Review follow-up agent failed: ${run.subtype}`);
+    }
+
+    const headSha = execSync('git rev-parse HEAD', { cwd: worktreeDir, stdio: 'pipe' }).toString().trim();
+    const commitCount = Number(execSync(`git rev-list --count ${startSha}..HEAD`, { cwd: worktreeDir, stdio: 'pipe' }).toString().trim());
+    if (commitCount > 0) {
+      await validateChanges(ticket.project, worktreeDir, baseBranch, remote);
+      log(CYAN, 'PUSH', `Pushing ${commitCount} commit(s) to ${branchName}`);
+      execSync(`git push ${shellEscape(remote)} ${shellEscape(branchName)}`, { cwd: worktreeDir, stdio: 'pipe' });
+    }
+
+    const replies = new Map<string, string>();
+    const parsed = run.output?.replies;
+    if (Array.isArray(parsed)) {
+      for (const r of parsed as Array<{ threadId?: unknown; reply?: unknown }>) {
+        if (r.threadId && r.reply) replies.set(String(r.threadId), String(r.reply));
+      }
+    }
+    for (const thread of threads) {
+      const text = replies.get(thread.id) ?? (commitCount > 0 ? 'Addressed in the latest commits.' : 'Looked into this; no change made.');
+      await gitHost.replyToReviewThread(ticket.prUrl, thread.id, formatReviewReply(text, commitCount > 0 ? headSha.slice(0, 7) : undefined));
+    }
+
+    const duration = Math.round((Date.now() - startTime) / 1000);
+    await source.addComment(ticket.id, [
+      '💬 Review Addressed',
+      `PR: ${ticket.prUrl}`,
+      `Threads: ${threads.length} | Commits: ${commitCount}`,
+      run.output?.summary ? `Summary: ${String(run.output.summary).slice(0, 500)}` : '',
+      `Cost: $${cost.toFixed(2)} | Duration: ${duration}s`,
+    ].filter(Boolean).join('\n'));
+
+    jobs.update(ticket.id, { cost });
+    log(GREEN, 'ADDRESS', `Done: ${threads.length} thread(s), ${commitCount} commit(s), cost=$${cost.toFixed(2)}`);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    log(RED, 'ADDRESS', `Review follow-up failed for "${ticket.title}": ${errMsg}`);
+
+    // The marker stops the same threads from being retried until a reviewer answers.
+    // The error itself (worktree paths, build output) stays on the ticket.
+    for (const thread of threads) {
+      try {
+        await gitHost.replyToReviewThread(ticket.prUrl, thread.id, formatReviewReply("Couldn't address this automatically — details are on the ticket."));
+      } catch {
+        // Best-effort: the ticket comment below still records the failure
+      }
+    }
+    await source.addComment(ticket.id, [
+      '❌ Review Follow-up Failed',
+      `PR: ${ticket.prUrl}`,
+      `Error: ${errMsg.slice(0, 500)}`,
+      `Cost: $${cost.toFixed(2)}`,
+    ].join('\n'));
+    jobs.finish(ticket.id, 'failed', { cost, error: errMsg.slice(0, 500) });
+  } finally {
+    removeWorktree(projectDir, worktreeDir);
+  }
+}
+
 // -- Orchestration --
 
-async function handleTicket(mode: 'review' | 'execute', ticket: TicketDetails): Promise<void> {
+async function handleTicket(mode: LockEntry['mode'], ticket: TicketDetails, resume?: ResumePoint): Promise<void> {
   const lockKey = ticket.id;
 
   if (activeLocks.has(lockKey)) {
@@ -954,24 +1592,29 @@ async function handleTicket(mode: 'review' | 'execute', ticket: TicketDetails):
   // Check project mapping
   if (!getProjectDir(ticket.project)) {
     const known = getProjectNames();
-    log(RED, 'ERROR', `Unknown project "${ticket.project}" for ticket "${ticket.title}". Available projects: ${known.join(', ')}. Check that the Notion Project field matches projects.json exactly (case-sensitive).`);
-    await writeFailure(ticket.id, `Unknown project: "${ticket.project}". Available projects: ${known.join(', ')}. Check that the Notion Project field matches projects.json exactly (case-sensitive).`);
+    log(RED, 'ERROR', `Unknown project "${ticket.project}" for ticket "${ticket.title}". Available projects: ${known.join(', ')}. Check that the ${source.name} Project field matches projects.json exactly (case-sensitive).`);
+    await source.writeFailure(ticket.id, `Unknown project: "${ticket.project}". Available projects: ${known.join(', ')}. Check that the ${source.name} Project field matches projects.json exactly (case-sensitive).`);
     return;
   }
 
   const lockEntry = { mode, startedAt: Date.now() };
   activeLocks.set(lockKey, lockEntry);
   activeAgentCount++;
+  jobs.start(ticket, mode);
 
   try {
     if (mode === 'review') {
       await runReviewAgent(ticket);
+    } else if (mode === 'address') {
+      await runAddressReviewAgent(ticket);
     } else {
-      await runExecuteAgent(ticket);
+      await runExecuteAgent(ticket, resume);
     }
+    jobs.finish(ticket.id, 'succeeded');
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
     log(RED, 'FAILED', `${mode} failed for "${ticket.title}": ${errMsg}`);
+    jobs.finish(ticket.id, 'failed', { error: errMsg.slice(0, 500) });
 
     // Add failure comment for review (execute handles its own failure comments)
     if (mode === 'review') {
@@ -982,7 +1625,7 @@ async function handleTicket(mode: 'review' | 'execute', ticket: TicketDetails):
         `Phase: review`,
         `Duration: ${duration}s`,
       ].join('\n');
-      await addComment(ticket.id, comment);
+      await source.addComment(ticket.id, comment);
     }
 
     // Append failure learning (execute handles its own in runExecuteAgent catch)
@@ -996,17 +1639,160 @@ async function handleTicket(mode: 'review' | 'execute', ticket: TicketDetails):
       }
     }
 
+    // A failed review follow-up leaves the PR as it was — keep the ticket in PR Ready
+    if (mode === 'address') return;
+
     try {
-      await writeFailure(ticket.id, errMsg);
-    } catch (notionErr) {
-      log(RED, 'NOTION', `Failed to write failure to Notion: ${notionErr}`);
+      await source.writeFailure(ticket.id, errMsg);
+    } catch (sourceErr) {
+      log(RED, 'TICKETS', `Failed to write failure to ${source.name}: ${sourceErr}`);
     }
   } finally {
     activeLocks.delete(lockKey);
     activeAgentCount--;
+    removeAttachments(attachmentsDir(getProjectDir(ticket.project)!, ticket.id));
+
+    // A slot just freed up — pick up a webhook event that had to wait
+    const next = deferredTickets.values().next();
+    if (!next.done && !shuttingDown) {
+      deferredTickets.delete(next.value);
+      dispatchTicket(next.value).catch((err) => {
+        log(RED, 'WEBHOOK', `Error dispatching deferred ticket ${next.value}: ${err instanceof Error ? err.message : err}`);
+      });
+    }
   }
 }
 
+/** Run a once-per-ticket task (test checklist, feedback check) as a ledger job. */
+async function recordJob(kind: 'testing' | 'feedback', ticket: TicketDetails, task: () => Promise<void>): Promise<void> {
+  jobs.start(ticket, kind);
+  try {
+    await task();
+    jobs.finish(ticket.id, 'succeeded');
+  } catch (error) {
+    jobs.finish(ticket.id, 'failed', { error: (error instanceof Error ? error.message : String(error)).slice(0, 500) });
+    throw error;
+  }
+}
+
+/**
+ * Route one ticket to the handler for its current column. Used by the
+ * webhook listener; poll() applies the same routing in batches.
+ */
+async function dispatchTicket(ticketId: string): Promise<void> {
+  if (shuttingDown) return;
+  const details = await source.fetchTicketDetails(ticketId);
+
+  switch (details.status) {
+    case CONFIG.COLUMNS.REVIEW:
+    case CONFIG.COLUMNS.EXECUTE: {
+      if (activeLocks.has(details.id)) return;
+      const mode = details.status === CONFIG.COLUMNS.REVIEW ? 'review' : 'execute';
+      if (DRY_RUN) {
+        log(DIM, 'WEBHOOK', `Would ${mode} "${details.title}" (dry-run)`);
+        return;
+      }
+      if (activeLocks.size >= CONFIG.MAX_CONCURRENT_AGENTS) {
+        deferredTickets.add(details.id);
+        log(YELLOW, 'QUEUE', `"${details.title}" waiting for a free agent slot (${CONFIG.MAX_CONCURRENT_AGENTS} max)`);
+        return;
+      }
+      handleTicket(mode, details).catch((err) => {
+        log(RED, 'UNHANDLED', `Unexpected error in ${mode} for "${details.title}": ${err instanceof Error ? err.message : err}`);
+      });
+      return;
+    }
+    case CONFIG.COLUMNS.TESTING: {
+      if (testingNotified.has(details.id) || DRY_RUN) return;
+      testingNotified.add(details.id);
+      await recordJob('testing', details, () => postTestChecklist(details));
+      return;
+    }
+    case CONFIG.COLUMNS.DONE:
+    case CONFIG.COLUMNS.FAILED: {
+      if (feedbackProcessed.has(details.id) || DRY_RUN) return;
+      feedbackProcessed.add(details.id);
+      await recordJob('feedback', details, () => runFeedbackRetro(details, details.status));
+      return;
+    }
+  }
+}
+
+/**
+ * Check the PRs of PR Ready and Testing tickets and move the tickets to
+ * match: merged → Testing, closed without merging → Execute or Failed
+ * (per project `onPRClosed`).
+ */
+async function syncPullRequests(): Promise<void> {
+  const [prReadyTickets, testingTickets] = await Promise.all([
+    source.fetchTicketsByStatus(CONFIG.COLUMNS.PR_READY),
+    source.fetchTicketsByStatus(CONFIG.COLUMNS.TESTING),
+  ]);
+  // A merged ticket back in PR Ready was reworked — its new PR's merge needs recording too
+  for (const ticket of prReadyTickets) mergeRecorded.delete(ticket.id);
+
+  for (const ticket of [...prReadyTickets, ...testingTickets]) {
+    if (shuttingDown) break;
+    if (activeLocks.has(ticket.id) || mergeRecorded.has(ticket.id)) continue;
+
+    try {
+      const details = await source.fetchTicketDetails(ticket.id);
+      if (!details.prUrl) continue;
+
+      const pr = await getGitHost(details.project).fetchPullRequestStatus(details.prUrl);
+      const action = prSyncAction(details.status, pr, getOnPRClosed(details.project));
+      if (action.kind === 'none') {
+        if (pr.state === 'open' && details.status === CONFIG.COLUMNS.PR_READY && getPullRequestConfig(details.project).addressReviews) {
+          await queueReviewFollowUp(details);
+        }
+        continue;
+      }
+
+      if (action.kind === 'merged') {
+        await source.writePRMerge(ticket.id, action.merge);
+        if (action.moveTo) await source.moveTicketStatus(ticket.id, action.moveTo);
+        // The comment is the record of the merge on trackers without date fields (GitHub Issues, Linear)
+        await source.addComment(ticket.id, [
+          '🔀 PR Merged',
+          `PR: ${details.prUrl}`,
+          `Merged${action.merge.mergedBy ? ` by ${action.merge.mergedBy}` : ''} at ${action.merge.mergedAt}`,
+        ].join('\n'));
+        mergeRecorded.add(ticket.id);
+        jobs.record(details, 'merge', 'succeeded', { prUrl: details.prUrl });
+        log(GREEN, 'PR-SYNC', `"${details.title}" merged${action.moveTo ? ` — moved to ${action.moveTo}` : ''}`);
+      } else if (action.moveTo === CONFIG.COLUMNS.FAILED) {
+        await source.writeFailure(ticket.id, `Pull request closed without merging: ${details.prUrl}`);
+        log(YELLOW, 'PR-SYNC', `"${details.title}" PR closed — moved to ${action.moveTo}`);
+      } else {
+        await source.moveTicketStatus(ticket.id, action.moveTo);
+        await source.addComment(ticket.id, [
+          '↩️ PR Closed',
+          `PR: ${details.prUrl} was closed without merging.`,
+          `Moved back to ${action.moveTo} for another attempt.`,
+        ].join('\n'));
+        log(YELLOW, 'PR-SYNC', `"${details.title}" PR closed — moved to ${action.moveTo}`);
+      }
+    } catch (e) {
+      // Best-effort: host CLI/token missing, PR deleted, rate limits — try again next round
+      log(YELLOW, 'PR-SYNC', `Could not check PR for "${ticket.title}": ${e instanceof Error ? e.message : e}`);
+    }
+  }
+}
+
+/** Start a follow-up run if the ticket's PR has review threads waiting on the agent. */
+async function queueReviewFollowUp(ticket: TicketDetails): Promise<void> {
+  const threads = pendingReviewThreads(await getGitHost(ticket.project).fetchReviewThreads(ticket.prUrl!));
+  if (threads.length === 0) return;
+  if (activeLocks.size >= CONFIG.MAX_CONCURRENT_AGENTS) {
+    log(YELLOW, 'QUEUE', `"${ticket.title}" has ${threads.length} review thread(s) — waiting for a free agent slot`);
+    return;
+  }
+  log(MAGENTA, 'PR-SYNC', `"${ticket.title}" has ${threads.length} unresolved review thread(s)`);
+  handleTicket('address', ticket).catch((err) => {
+    log(RED, 'UNHANDLED', `Unexpected error in address for "${ticket.title}": ${err instanceof Error ? err.message : err}`);
+  });
+}
+
 function clearStaleLocks(): void {
   const now = Date.now();
   for (const [id, lock] of activeLocks) {
@@ -1017,10 +1803,134 @@ function clearStaleLocks(): void {
   }
 }
 
+/**
+ * Bring the job ledger up to date after a restart. Jobs still marked
+ * running were cut off (nothing runs before this): they're closed as
+ * interrupted and their worktrees removed. Execute tickets they left In
+ * Progress are resumed by recoverInProgressTickets; review and follow-up
+ * tickets never left their column and are picked up again. Tickets that
+ * already got a test checklist, feedback check or merge record are not
+ * handled again while they stay in that column (poll forgets them once
+ * they leave it).
+ */
+async function reconcileJobs(): Promise<void> {
+  for (const id of jobs.ticketsWith('testing')) testingNotified.add(id);
+  for (const id of jobs.ticketsWith('feedback')) feedbackProcessed.add(id);
+  for (const id of jobs.ticketsWith('merge')) mergeRecorded.add(id);
+
+  for (const job of jobs.running()) {
+    const phase = job.phase ?? job.kind;
+    log(YELLOW, 'RECOVER', `${job.kind} of "${job.title}" was interrupted during ${phase}`);
+    if (DRY_RUN) continue;
+
+    const projectDir = getProjectDir(job.project);
+    if (projectDir) {
+      if (job.worktreeDir && existsSync(job.worktreeDir)) {
+        removeWorktree(projectDir, job.worktreeDir);
+        log(DIM, 'RECOVER', `Removed worktree ${job.worktreeDir}`);
+      }
+      removeAttachments(attachmentsDir(projectDir, job.ticketId));
+    }
+
+    jobs.finish(job.ticketId, 'interrupted', { error: `Interrupted during ${phase}: TicketToPR stopped before the run finished.` });
+  }
+
+  if (!DRY_RUN) jobs.compact(CONFIG.JOBS_RETENTION_MS);
+}
+
+/**
+ * Pick up execute tickets stranded In Progress with no live run here.
+ * A run cut off by a crash or restart resumes after the last phase the
+ * ledger recorded (or fails, see runExecuteAgent). A run that failed but
+ * couldn't move the ticket only has its failure written again. A ticket
+ * the ledger knows nothing about (stranded before it existed, or after it
+ * was lost) fails with what its branch holds. Runs on every poll, so the
+ * first one after startup catches what reconcileJobs closed.
+ */
+async function recoverInProgressTickets(): Promise<void> {
+  const stranded = (await source.fetchTicketsByStatus(CONFIG.COLUMNS.IN_PROGRESS)).filter((t) => !activeLocks.has(t.id));
+
+  // Posts the failure comment once: the recorded failure makes a retry only write the failure again
+  const giveUp = async (ticket: Ticket, summary: string, error: string, patch: JobPatch = {}): Promise<void> => {
+    await source.addComment(ticket.id, ['❌ Execute Failed', `Error: ${summary}`, 'Phase: recovery'].join('\n'));
+    jobs.record(ticket, 'execute', 'failed', { ...patch, error });
+    await source.writeFailure(ticket.id, error);
+  };
+
+  for (const ticket of stranded) {
+    if (shuttingDown) break;
+    // Not configured here — another TicketToPR instance may own it
+    const projectDir = getProjectDir(ticket.project);
+    if (!projectDir) continue;
+
+    const history = jobs.all().filter((j) => j.ticketId === ticket.id && j.kind === 'execute');
+    const last = history[history.length - 1];
+    // Still running in this process — its lock went stale, the run didn't
+    if (last?.outcome === 'running' || last?.outcome === 'succeeded') continue;
+
+    if (DRY_RUN) {
+      log(DIM, 'RECOVER', `Would recover "${ticket.title}" (dry-run)`);
+      continue;
+    }
+
+    try {
+      if (!last) {
+        // Without a ledger entry there's no telling whether the agent finished, so the run isn't resumed
+        const branchName = executeBranchName(ticket);
+        const worktreeDir = executeWorktreeDir(projectDir, branchName);
+        const remote = getRemote(ticket.project);
+        const baseBranch = getBaseBranch(ticket.project) || getDefaultBranch(projectDir, remote);
+        const commits = countBranchCommits(projectDir, `${remote}/${baseBranch}`, branchName);
+        if (existsSync(worktreeDir)) removeWorktree(projectDir, worktreeDir);
+        log(RED, 'RECOVER', `"${ticket.title}" is stranded In Progress with no recorded run (${commits} commit(s) on ${branchName})`);
+        const summary = commits > 0
+          ? `Stranded In Progress with no record of its run. Branch ${branchName} has ${commits} commit(s), but whether the agent finished is unknown`
+          : 'Stranded In Progress with no record of its run and no commits';
+        await giveUp(ticket, summary, `${summary}. Move the ticket back to ${CONFIG.COLUMNS.EXECUTE} to start over.`, { branch: branchName });
+        continue;
+      }
+
+      if (last.outcome === 'failed') {
+        log(YELLOW, 'RECOVER', `Writing the failure of "${ticket.title}" again`);
+        await source.writeFailure(ticket.id, last.error ?? 'Execute failed');
+        continue;
+      }
+
+      // Interrupted runs in a row: one that keeps taking the process down isn't resumed forever
+      let interrupted = 0;
+      for (let i = history.length - 1; i >= 0 && history[i].outcome === 'interrupted'; i--) interrupted++;
+      if (interrupted > CONFIG.RECOVERY_MAX_RESUMES) {
+        log(RED, 'RECOVER', `"${ticket.title}" was interrupted ${interrupted} times — giving up`);
+        await giveUp(
+          ticket,
+          `Interrupted ${interrupted} times in a row (last during ${last.phase ?? 'an unknown phase'})`,
+          `Interrupted ${interrupted} times in a row — not resuming again. Check the daemon logs, then move the ticket back to ${CONFIG.COLUMNS.EXECUTE} to retry.`,
+          { phase: last.phase, branch: last.branch, cost: last.cost },
+        );
+        continue;
+      }
+
+      if (activeLocks.size >= CONFIG.MAX_CONCURRENT_AGENTS) {
+        log(YELLOW, 'QUEUE', `${ticket.title} is stranded In Progress — waiting for a free agent slot`);
+        break;
+      }
+
+      const details = await source.fetchTicketDetails(ticket.id);
+      const resume = { phase: last.phase, branch: last.branch, cost: last.cost ?? 0, reviewedCommit: last.reviewedCommit };
+      handleTicket('execute', details, resume).catch((err) => {
+        log(RED, 'UNHANDLED', `Unexpected error recovering "${details.title}": ${err instanceof Error ? err.message : err}`);
+      });
+    } catch (e) {
+      // Best-effort: the ticket stays In Progress and is tried again next poll
+      log(YELLOW, 'RECOVER', `Could not recover "${ticket.title}": ${e instanceof Error ? e.message : e}`);
+    }
+  }
+}
+
 async function poll(): Promise<void> {
   if (shuttingDown) return;
 
-  log(DIM, 'POLL', `Checking Notion board...${DRY_RUN ? ' (dry-run)' : ''}`);
+  log(DIM, 'POLL', `Checking ${source.name} board...${DRY_RUN ? ' (dry-run)' : ''}`);
 
   try {
     // Clear stale locks
@@ -1028,13 +1938,23 @@ async function poll(): Promise<void> {
 
     // Fetch tickets in Review, Execute, Testing, Done, and Failed columns
     const [reviewTickets, executeTickets, testingTickets, doneTickets, failedTickets] = await Promise.all([
-      fetchTicketsByStatus(CONFIG.COLUMNS.REVIEW),
-      fetchTicketsByStatus(CONFIG.COLUMNS.EXECUTE),
-      fetchTicketsByStatus(CONFIG.COLUMNS.TESTING),
-      fetchTicketsByStatus(CONFIG.COLUMNS.DONE),
-      fetchTicketsByStatus(CONFIG.COLUMNS.FAILED),
+      source.fetchTicketsByStatus(CONFIG.COLUMNS.REVIEW),
+      source.fetchTicketsByStatus(CONFIG.COLUMNS.EXECUTE),
+      source.fetchTicketsByStatus(CONFIG.COLUMNS.TESTING),
+      source.fetchTicketsByStatus(CONFIG.COLUMNS.DONE),
+      source.fetchTicketsByStatus(CONFIG.COLUMNS.FAILED),
     ]);
 
+    // Handled tickets that left the column are checked again if they come back
+    const inColumn = (tickets: Ticket[]) => new Set(tickets.map((t) => t.id));
+    const testingIds = inColumn(testingTickets);
+    const feedbackIds = inColumn([...doneTickets, ...failedTickets]);
+    for (const id of testingNotified) if (!testingIds.has(id)) testingNotified.delete(id);
+    for (const id of feedbackProcessed) if (!feedbackIds.has(id)) feedbackProcessed.delete(id);
+
+    // Stranded In Progress tickets go first — they already hold a branch
+    await recoverInProgressTickets();
+
     const pendingReview = reviewTickets.filter((t) => !activeLocks.has(t.id));
     const pendingExecute = executeTickets.filter((t) => !activeLocks.has(t.id));
     const pendingTesting = testingTickets.filter((t) => !testingNotified.has(t.id));
@@ -1062,6 +1982,18 @@ async function poll(): Promise<void> {
 
     if (DRY_RUN) return;
 
+    // The ledger only appends — rewrite it now and then so it stays one line per job and drops old ones
+    if (Date.now() - lastJobsCompaction >= CONFIG.JOBS_COMPACT_INTERVAL_MS) {
+      lastJobsCompaction = Date.now();
+      jobs.compact(CONFIG.JOBS_RETENTION_MS);
+    }
+
+    // Sync PR status back to the board (throttled — one API call per ticket)
+    if (Date.now() - lastPRSync >= CONFIG.PR_SYNC_INTERVAL_MS) {
+      lastPRSync = Date.now();
+      await syncPullRequests();
+    }
+
     // Collect all pending tickets (review first, then execute)
     const allPendingTickets = [
       ...pendingReview.map((t) => ({ ticket: t, mode: 'review' as const })),
@@ -1084,7 +2016,7 @@ async function poll(): Promise<void> {
     // Fire and forget - runs in background, lock prevents duplicates
     for (const { ticket, mode } of ticketsToProcess) {
       if (shuttingDown) break;
-      const details = await fetchTicketDetails(ticket.id);
+      const details = await source.fetchTicketDetails(ticket.id);
       handleTicket(mode, details).catch((err) => {
         log(RED, 'UNHANDLED', `Unexpected error in ${mode} for "${details.title}": ${err instanceof Error ? err.message : err}`);
       });
@@ -1094,8 +2026,8 @@ async function poll(): Promise<void> {
     for (const ticket of pendingTesting) {
       if (shuttingDown) break;
       testingNotified.add(ticket.id);
-      const details = await fetchTicketDetails(ticket.id);
-      postTestChecklist(details).catch((err) => {
+      const details = await source.fetchTicketDetails(ticket.id);
+      recordJob('testing', details, () => postTestChecklist(details)).catch((err) => {
         log(YELLOW, 'TESTING', `Error posting checklist for "${details.title}": ${err instanceof Error ? err.message : err}`);
       });
     }
@@ -1104,8 +2036,8 @@ async function poll(): Promise<void> {
     for (const ticket of pendingFeedback) {
       if (shuttingDown) break;
       feedbackProcessed.add(ticket.id);
-      const details = await fetchTicketDetails(ticket.id);
-      runFeedbackRetro(details, ticket.feedbackStatus).catch((err) => {
+      const details = await source.fetchTicketDetails(ticket.id);
+      recordJob('feedback', details, () => runFeedbackRetro(details, ticket.feedbackStatus)).catch((err) => {
         log(YELLOW, 'FEEDBACK', `Error processing feedback for "${details.title}": ${err instanceof Error ? err.message : err}`);
       });
     }
@@ -1148,12 +2080,15 @@ function setupShutdown(): void {
 
 async function main(): Promise<void> {
   // Validate environment
-  if (!process.env.NOTION_TOKEN) {
-    console.error("Missing NOTION_TOKEN. Run 'npx tsx index.ts init' to configure, or create .env.local manually.");
+  try {
+    source = getTicketSource();
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
     process.exit(1);
   }
-  if (!process.env.NOTION_DATABASE_ID) {
-    console.error("Missing NOTION_DATABASE_ID. Run 'npx tsx index.ts init' to configure, or create .env.local manually.");
+  const missingEnv = getMissingSourceEnv();
+  if (missingEnv.length > 0) {
+    console.error(`Missing ${missingEnv.join(', ')}. Run 'npx tsx index.ts init' to configure, or create .env.local manually.`);
     process.exit(1);
   }
 
@@ -1173,7 +2108,13 @@ async function main(): Promise<void> {
 
   console.log('');
   log(GREEN, 'START', `TicketToPR ${pro ? '(Pro)' : '(Free)'}`);
-  log(DIM, 'CONFIG', `Poll interval: ${CONFIG.POLL_INTERVAL_MS / 1000}s`);
+  log(DIM, 'CONFIG', `Ticket source: ${source.name}`);
+  if (getTicketSourceName() === 'notion' && getNotionDatabases().length > 1) {
+    log(DIM, 'CONFIG', `Notion databases: ${getNotionDatabases().map((db) => db.name).join(', ')}`);
+  }
+  log(DIM, 'CONFIG', WEBHOOK
+    ? `Webhook mode: reconcile poll every ${CONFIG.WEBHOOK_RECONCILE_INTERVAL_MS / 1000}s`
+    : `Poll interval: ${CONFIG.POLL_INTERVAL_MS / 1000}s`);
   log(DIM, 'CONFIG', `Max concurrent agents: ${CONFIG.MAX_CONCURRENT_AGENTS}${pro ? '' : ' (upgrade to Pro for up to 10)'}`);
   log(DIM, 'CONFIG', `Projects: ${projectNames.join(', ')}`);
   log(DIM, 'CONFIG', `Review: ${CONFIG.REVIEW_MODEL} ($${CONFIG.REVIEW_BUDGET_USD} budget)`);
@@ -1182,6 +2123,12 @@ async function main(): Promise<void> {
   if (ONCE) log(YELLOW, 'CONFIG', 'ONE-SHOT mode: will exit after first poll');
   console.log('');
 
+  await reconcileJobs();
+
+  if (WEBHOOK && !ONCE) {
+    await startWebhookListener();
+  }
+
   // First poll
   await poll();
 
@@ -1195,13 +2142,53 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  // Poll loop
+  // Poll loop (in webhook mode this is only a reconciliation fallback)
+  const interval = WEBHOOK ? CONFIG.WEBHOOK_RECONCILE_INTERVAL_MS : CONFIG.POLL_INTERVAL_MS;
   while (!shuttingDown) {
-    await sleep(CONFIG.POLL_INTERVAL_MS);
+    await sleep(interval);
     await poll();
   }
 }
 
+async function startWebhookListener(): Promise<void> {
+  if (getTicketSourceName() !== 'notion') {
+    console.error(`--webhook only supports the Notion ticket source (TICKET_SOURCE=${getTicketSourceName()}).`);
+    process.exit(1);
+  }
+
+  const secret = process.env.NOTION_WEBHOOK_SECRET;
+  const databaseIds = getNotionDatabases().map((db) => db.id);
+
+  try {
+    await startWebhookServer({
+      port: CONFIG.WEBHOOK_PORT,
+      secret,
+      onEvent: (event) => {
+        if (event.databaseId && !databaseIds.some((id) => sameNotionId(id, event.databaseId!))) return;
+        log(DIM, 'WEBHOOK', `${event.type} for ${event.pageId}`);
+        dispatchTicket(event.pageId).catch((err) => {
+          log(RED, 'WEBHOOK', `Error dispatching ${event.pageId}: ${err instanceof Error ? err.message : err}`);
+        });
+      },
+      onVerificationToken: (token) => {
+        log(YELLOW, 'WEBHOOK', `Verification token received: ${token}`);
+        log(YELLOW, 'WEBHOOK', 'Paste it into the Notion subscription to verify, then set NOTION_WEBHOOK_SECRET to the same value and restart.');
+      },
+      onRejected: (reason) => {
+        log(YELLOW, 'WEBHOOK', `Rejected request: ${reason}`);
+      },
+    });
+  } catch (e) {
+    console.error(`Failed to start webhook listener on port ${CONFIG.WEBHOOK_PORT}: ${e instanceof Error ? e.message : e}`);
+    process.exit(1);
+  }
+
+  log(GREEN, 'WEBHOOK', `Listening on :${CONFIG.WEBHOOK_PORT}/notion/webhook (reconciling every ${CONFIG.WEBHOOK_RECONCILE_INTERVAL_MS / 60_000}m)`);
+  if (!secret) {
+    log(YELLOW, 'WEBHOOK', 'NOTION_WEBHOOK_SECRET not set — events will be rejected until the subscription is verified');
+  }
+}
+
 main().catch((err) => {
   console.error('Fatal error:', err);
   process.exit(1);
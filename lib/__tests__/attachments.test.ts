@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  attachmentsDir,
+  attachmentFileName,
+  downloadAttachments,
+  formatAttachmentsSection,
+  removeAttachments,
+} from '../attachments.js';
+
+// -- Naming --
+
+describe('attachmentsDir', () => {
+  it('keeps ticket ids filesystem-safe', () => {
+    expect(attachmentsDir('/repo', 'abc-123')).toBe(join('/repo', '.ticket-to-pr', 'attachments', 'abc-123'));
+    expect(attachmentsDir('/repo', 'o/r#4')).toBe(join('/repo', '.ticket-to-pr', 'attachments', 'o_r_4'));
+  });
+});
+
+describe('attachmentFileName', () => {
+  it('prefixes an index and keeps the extension', () => {
+    expect(attachmentFileName('Login Screen (v2).PNG', 0)).toBe('01-Login-Screen-v2.png');
+  });
+
+  it('falls back for names without usable characters', () => {
+    expect(attachmentFileName('???.pdf', 11)).toBe('12-attachment.pdf');
+  });
+});
+
+// -- Downloads against a local stand-in server --
+
+describe('downloadAttachments', () => {
+  let server: Server;
+  let baseUrl: string;
+  const dir = join(tmpdir(), `attachments-test-${Date.now()}`);
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/shot.png') {
+        res.writeHead(200, { 'Content-Type': 'image/png' }).end(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      } else {
+        res.writeHead(404).end('gone');
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    removeAttachments(dir);
+  });
+
+  it('saves files and reports failures without stopping', async () => {
+    const result = await downloadAttachments([
+      { name: 'expired.png', url: `${baseUrl}/expired.png` },
+      { name: 'shot.png', url: `${baseUrl}/shot.png` },
+    ], dir);
+
+    expect(result.failed.map((f) => f.name)).toEqual(['expired.png']);
+    expect(result.failed[0].error).toContain('404');
+    expect(result.files).toEqual([{ name: 'shot.png', path: join(dir, '02-shot.png') }]);
+    expect(readFileSync(result.files[0].path)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  it('does nothing without attachments', async () => {
+    expect(await downloadAttachments([], dir)).toEqual({ files: [], failed: [] });
+    expect(existsSync(dir)).toBe(false);
+  });
+});
+
+// -- Prompt section --
+
+describe('formatAttachmentsSection', () => {
+  it('lists local paths', () => {
+    const lines = formatAttachmentsSection([{ name: 'shot.png', path: '/tmp/a/01-shot.png' }]);
+    expect(lines).toContain('## Attachments');
+    expect(lines).toContain('- `/tmp/a/01-shot.png` — shot.png');
+  });
+
+  it('is empty without files', () => {
+    expect(formatAttachmentsSection([])).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeChecks, tailLog, formatFailedChecks } from '../ci.js';
+import type { CheckRun } from '../git-host.js';
+
+const check = (name: string, state: CheckRun['state']): CheckRun => ({ id: name, name, state });
+
+describe('summarizeChecks', () => {
+  it('waits until every check has finished', () => {
+    expect(summarizeChecks([])).toEqual({ state: 'none' });
+    expect(summarizeChecks([check('lint', 'failure'), check('test', 'pending')])).toEqual({ state: 'pending' });
+    expect(summarizeChecks([check('lint', 'success'), check('test', 'success')])).toEqual({ state: 'success' });
+  });
+
+  it('lists the failed checks', () => {
+    expect(summarizeChecks([check('lint', 'success'), check('test', 'failure')])).toEqual({ state: 'failure', failed: [check('test', 'failure')] });
+  });
+});
+
+describe('tailLog', () => {
+  it('strips colors and Actions timestamps', () => {
+    expect(tailLog('2026-03-01T10:00:00.1234567Z \x1b[31mFAIL\x1b[0m src/a.test.ts\r\n', 100)).toBe('FAIL src/a.test.ts');
+  });
+
+  it('keeps the end of long logs', () => {
+    expect(tailLog('setup\n'.repeat(50) + 'Error: boom', 23)).toBe('... (log truncated)\nsetup\nsetup\nError: boom');
+  });
+});
+
+describe('formatFailedChecks', () => {
+  it('renders each check with its log', () => {
+    expect(formatFailedChecks([{ check: { ...check('test', 'failure'), url: 'https://ci/1' }, log: 'Error: boom' }]).join('\n')).toBe(
+      '## Failed Checks\n\n### test (https://ci/1)\n\n```\nError: boom\n```',
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdirSync, rmSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+// -- Subcommand exit codes, through the real entry point --
+
+describe('subcommands', () => {
+  let configDir: string;
+
+  beforeAll(() => {
+    configDir = join(tmpdir(), `cli-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(configDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function run(...args: string[]) {
+    const env = { ...process.env };
+    delete env.NOTION_TOKEN;
+    delete env.NOTION_DATABASE_ID;
+    return spawnSync(join(ROOT, 'node_modules', '.bin', 'tsx'), [join(ROOT, 'index.ts'), ...args], {
+      cwd: configDir,
+      env,
+      encoding: 'utf-8',
+      timeout: 60_000,
+    });
+  }
+
+  it('exits non-zero when a subcommand fails', () => {
+    expect(run('notion', 'bogus').status).toBe(1);
+    expect(run('notion', 'setup').status).toBe(1);
+  }, 120_000);
+
+  it('exits zero when it succeeds', () => {
+    expect(run('notion').status).toBe(0);
+  }, 60_000);
+});
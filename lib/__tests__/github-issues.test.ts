@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { TicketSource } from '../../config.js';
+import { startStandInServer, type RecordedRequest, type StandInServer } from './helpers/stand-in-server.js';
+import {
+  createGitHubIssuesSource,
+  statusLabel,
+  statusFromLabels,
+  projectFromLabels,
+} from '../github-issues.js';
+
+// -- Local stand-in for the GitHub REST API --
+
+interface FakeIssue {
+  number: number;
+  title: string;
+  body: string;
+  labels: string[];
+  closed?: boolean;
+  comments: Array<{ body: string; user: { login: string }; created_at: string }>;
+}
+
+let issues: FakeIssue[] = [];
+let requests: RecordedRequest[] = [];
+
+function issueJson(issue: FakeIssue) {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    html_url: `http://example.test/issues/${issue.number}`,
+    labels: issue.labels.map((name) => ({ name })),
+  };
+}
+
+function startServer(): Promise<StandInServer> {
+  return startStandInServer((req, send) => {
+    const url = new URL(req.url, 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean); // repos/o/r/issues/...
+    if (parts[3] !== 'issues') return send(404, { message: 'Not Found' });
+
+    if (parts.length === 4) {
+      const label = url.searchParams.get('labels');
+      const page = Number(url.searchParams.get('page') ?? '1');
+      const state = url.searchParams.get('state') ?? 'open';
+      const matching = issues.filter((i) => (!label || i.labels.includes(label)) && (state === 'all' || !i.closed));
+      return send(200, page === 1 ? matching.map(issueJson) : []);
+    }
+
+    const issue = issues.find((i) => i.number === Number(parts[4]));
+    if (!issue) return send(404, { message: 'Not Found' });
+
+    if (parts.length === 5) return send(200, issueJson(issue));
+    if (parts[5] === 'labels' && req.method === 'PUT') {
+      issue.labels = req.body.labels;
+      return send(200, issue.labels.map((name) => ({ name })));
+    }
+    if (parts[5] === 'comments' && req.method === 'POST') {
+      issue.comments.push({ body: req.body.body, user: { login: 'ttp-bot' }, created_at: new Date().toISOString() });
+      return send(201, {});
+    }
+    if (parts[5] === 'comments') {
+      const page = Number(url.searchParams.get('page') ?? '1');
+      return send(200, page === 1 ? issue.comments : []);
+    }
+    send(404, { message: 'Not Found' });
+  });
+}
+
+let server: StandInServer;
+let source: TicketSource;
+
+beforeAll(async () => {
+  server = await startServer();
+  requests = server.requests;
+  source = createGitHubIssuesSource({
+    token: 'test-token',
+    repo: 'acme/web',
+    apiUrl: server.url,
+    defaultProject: 'Fallback',
+  });
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  issues = [
+    { number: 1, title: 'Add dark mode', body: 'Users want dark mode', labels: ['ttp:review', 'project:WebApp', 'ui'], comments: [] },
+    { number: 2, title: 'Fix typo', body: 'Typo on homepage', labels: ['ttp:execute'], comments: [] },
+  ];
+});
+
+// -- Label mapping --
+
+describe('label mapping', () => {
+  it('maps columns to ttp: labels', () => {
+    expect(statusLabel('Review')).toBe('ttp:review');
+    expect(statusLabel('PR Ready')).toBe('ttp:pr-ready');
+    expect(statusLabel('In Progress')).toBe('ttp:in-progress');
+  });
+
+  it('maps labels back to columns', () => {
+    expect(statusFromLabels(['bug', 'ttp:pr-ready'])).toBe('PR Ready');
+    expect(statusFromLabels(['bug'])).toBe('');
+  });
+
+  it('reads the project label with a fallback', () => {
+    expect(projectFromLabels(['project:WebApp'])).toBe('WebApp');
+    expect(projectFromLabels(['bug'], 'Default')).toBe('Default');
+  });
+});
+
+// -- TicketSource against the stand-in server --
+
+describe('GitHub Issues ticket source', () => {
+  it('fetches tickets by status label', async () => {
+    const tickets = await source.fetchTicketsByStatus('Review');
+    expect(tickets).toEqual([{ id: '1', title: 'Add dark mode', project: 'WebApp', status: 'Review' }]);
+    expect(requests[0].url).toContain('labels=ttp%3Areview');
+    expect(requests[0].auth).toBe('Bearer test-token');
+  });
+
+  it('skips closed issues except in columns a merged PR reaches', async () => {
+    issues.push(
+      { number: 3, title: 'Old idea', body: '', labels: ['ttp:review'], closed: true, comments: [] },
+      { number: 4, title: 'Shipped', body: '', labels: ['ttp:done'], closed: true, comments: [] },
+    );
+    expect((await source.fetchTicketsByStatus('Review')).map((t) => t.id)).toEqual(['1']);
+    expect((await source.fetchTicketsByStatus('Done')).map((t) => t.id)).toEqual(['4']);
+  });
+
+  it('falls back to the default project', async () => {
+    const tickets = await source.fetchTicketsByStatus('Execute');
+    expect(tickets[0].project).toBe('Fallback');
+  });
+
+  it('moves status by swapping the ttp: label and keeping others', async () => {
+    await source.moveTicketStatus('1', 'Scored');
+    expect(issues[0].labels).toEqual(['project:WebApp', 'ui', 'ttp:scored']);
+  });
+
+  it('round-trips review results through an issue comment', async () => {
+    await source.writeReviewResults('1', {
+      easeScore: 8,
+      confidenceScore: 7,
+      spec: 'Add a theme toggle',
+      impactReport: 'Touches the header',
+      affectedFiles: ['src/header.tsx'],
+      testCases: ['GIVEN a user WHEN toggling THEN the theme changes'],
+    });
+
+    const details = await source.fetchTicketDetails('1');
+    expect(details.description).toBe('Users want dark mode');
+    expect(details.ease).toBe(8);
+    expect(details.confidence).toBe(7);
+    expect(details.spec).toContain('Add a theme toggle');
+    expect(details.spec).toContain('## Acceptance Tests\n- GIVEN a user');
+    expect(details.impact).toContain('Files: src/header.tsx');
+  });
+
+  it('writes failures as a comment and moves to Failed', async () => {
+    await source.writeFailure('2', 'Build broke');
+    const details = await source.fetchTicketDetails('2');
+    expect(details.status).toBe('Failed');
+    expect(details.impact).toBe('ERROR: Build broke');
+  });
+
+  it('links the pull request back to the issue', async () => {
+    await source.writeExecutionResults('2', { branch: 'notion/2/fix-typo', cost: 1.234, prUrl: 'https://github.com/acme/web/pull/9' });
+    expect(issues[1].comments[0].body).toContain('🔗 Pull request: https://github.com/acme/web/pull/9');
+    expect(issues[1].comments[0].body).toContain('Cost: $1.23');
+    expect((await source.fetchTicketDetails('2')).prUrl).toBe('https://github.com/acme/web/pull/9');
+  });
+
+  it('separates human comments from our own', async () => {
+    await source.addComment('1', '🧪 Ready for Testing');
+    issues[0].comments.push({ body: 'Looks great', user: { login: 'pm' }, created_at: '2026-01-01T00:00:00Z' });
+
+    expect(await source.fetchComments('1')).toEqual([
+      { author: 'pm', text: 'Looks great', createdTime: '2026-01-01T00:00:00Z' },
+    ]);
+    expect(await source.hasTestingMarker('1')).toBe(true);
+    expect(await source.hasFeedbackMarker('1')).toBe(false);
+  });
+
+  it('builds issue URLs from the API base', () => {
+    const dotcom = createGitHubIssuesSource({ token: 't', repo: 'acme/web' });
+    expect(dotcom.ticketUrl('5')).toBe('https://github.com/acme/web/issues/5');
+    const ghe = createGitHubIssuesSource({ token: 't', repo: 'acme/web', apiUrl: 'https://git.acme.com/api/v3' });
+    expect(ghe.ticketUrl('5')).toBe('https://git.acme.com/acme/web/issues/5');
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createGitHubHost, parsePullRequestUrl, pullRequestStatus } from '../github.js';
+import { startStandInServer, type RecordedRequest, type StandInServer } from './helpers/stand-in-server.js';
+
+describe('parsePullRequestUrl', () => {
+  it('splits repo and number', () => {
+    expect(parsePullRequestUrl('https://github.com/acme/web/pull/42')).toEqual({ repo: 'acme/web', number: 42 });
+    expect(parsePullRequestUrl('https://gitlab.com/acme/web/-/merge_requests/1')).toBeNull();
+  });
+});
+
+describe('pullRequestStatus', () => {
+  it('reads merge time and user', () => {
+    expect(pullRequestStatus({ number: 1, html_url: '', node_id: '', state: 'closed', merged: true, merged_at: '2026-03-01T10:00:00Z', merged_by: { login: 'octocat' } }))
+      .toEqual({ state: 'merged', merge: { mergedAt: '2026-03-01T10:00:00Z', mergedBy: 'octocat' } });
+  });
+
+  it('reads open and closed PRs', () => {
+    expect(pullRequestStatus({ number: 1, html_url: '', node_id: '', state: 'open', merged: false })).toEqual({ state: 'open' });
+    expect(pullRequestStatus({ number: 1, html_url: '', node_id: '', state: 'closed', merged: false })).toEqual({ state: 'closed' });
+  });
+});
+
+// -- Against a local stand-in for the GitHub REST API --
+
+describe('GitHub host', () => {
+  let server: StandInServer;
+  let apiUrl: string;
+  let repoDir: string;
+  let existingPR = false;
+  let requests: RecordedRequest[] = [];
+
+  const prJson = (number: number) => ({ number, html_url: `https://github.com/acme/web/pull/${number}`, node_id: `PR_${number}`, state: 'open', merged: false });
+
+  beforeAll(async () => {
+    server = await startStandInServer((req, send, res) => {
+      if (req.method === 'POST' && req.url === '/repos/acme/web/pulls') {
+        return existingPR
+          ? send(422, { message: 'Validation Failed', errors: [{ message: 'A pull request already exists for acme:feature.' }] })
+          : send(201, prJson(12));
+      }
+      if (req.method === 'GET' && req.url.startsWith('/repos/acme/web/pulls?')) return send(200, [prJson(9)]);
+      if (req.url === '/repos/acme/web/pulls/12/requested_reviewers' && req.body.reviewers.includes('author')) {
+        return send(422, { message: 'Review cannot be requested from pull request author.' });
+      }
+      if (req.url.startsWith('/repos/acme/web/commits/abc123/check-runs')) {
+        // Two pages: 100 runs that passed, then the three below
+        if (req.url.endsWith('&page=1')) {
+          return send(200, {
+            total_count: 103,
+            check_runs: Array.from({ length: 100 }, (_, i) => ({ id: 100 + i, name: `shard-${i}`, status: 'completed', conclusion: 'success' })),
+          });
+        }
+        return send(200, {
+          total_count: 103,
+          check_runs: [
+            { id: 1, name: 'lint', status: 'completed', conclusion: 'success', html_url: 'https://ci/1' },
+            { id: 2, name: 'test', status: 'completed', conclusion: 'failure', html_url: 'https://ci/2' },
+            { id: 3, name: 'deploy-preview', status: 'in_progress', conclusion: null },
+          ],
+        });
+      }
+      if (req.url.startsWith('/repos/acme/web/commits/abc123/status?')) {
+        return send(200, {
+          total_count: 1,
+          statuses: [{ id: 50, context: 'ci/jenkins', state: 'error', target_url: 'https://jenkins/50', description: 'Build errored' }],
+        });
+      }
+      if (req.url === '/repos/acme/web/actions/jobs/2/logs') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        return res.end('Error: expected 2, got 3');
+      }
+      if (req.url === '/repos/acme/web/actions/jobs/4/logs') return send(404, { message: 'Not Found' });
+      if (req.url === '/repos/acme/web/actions/jobs/5/logs') return send(403, { message: 'API rate limit exceeded' });
+      if (req.url === '/repos/acme/web/check-runs/4') {
+        return send(200, { id: 4, name: 'codecov', status: 'completed', conclusion: 'failure', output: { title: 'Coverage dropped', summary: '-2%' } });
+      }
+      if (req.url === '/graphql') {
+        return send(200, {
+          data: {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  nodes: [
+                    { isResolved: true, path: 'a.ts', line: 1, comments: { nodes: [{ databaseId: 1, body: 'Done already', author: { login: 'alice' } }] } },
+                    { isResolved: false, path: 'b.ts', line: 7, comments: { nodes: [{ databaseId: 2, body: 'Rename this', author: { login: 'alice' } }] } },
+                  ],
+                },
+              },
+            },
+          },
+        });
+      }
+      send(200, prJson(Number(req.url.match(/\/(\d+)/)?.[1] ?? 0)));
+    });
+    requests = server.requests;
+    apiUrl = server.url;
+
+    repoDir = join(tmpdir(), `github-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(repoDir, { recursive: true });
+    execSync('git init -q', { cwd: repoDir });
+    execSync('git remote add origin git@github.com:acme/web.git', { cwd: repoDir });
+  });
+
+  afterAll(() => {
+    server.close();
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    existingPR = false;
+  });
+
+  it('creates a pull request and returns its number, URL and node id', async () => {
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    const pr = await host.createPullRequest(repoDir, { title: 'Fix login', body: 'Spec', base: 'main', head: 'feature' });
+
+    expect(pr).toEqual({ url: 'https://github.com/acme/web/pull/12', number: 12, nodeId: 'PR_12' });
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/repos/acme/web/pulls',
+      auth: 'Bearer ghp_test',
+      body: { title: 'Fix login', body: 'Spec', base: 'main', head: 'feature' },
+    });
+  });
+
+  it('reuses the open pull request of a retried branch', async () => {
+    existingPR = true;
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    const pr = await host.createPullRequest(repoDir, { title: 'Fix login', body: 'Spec v2', base: 'main', head: 'feature' });
+
+    expect(pr.number).toBe(9);
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'POST /repos/acme/web/pulls',
+      'GET /repos/acme/web/pulls?state=open&head=acme%3Afeature',
+      'PATCH /repos/acme/web/pulls/9',
+    ]);
+  });
+
+  it('opens drafts and adds reviewers, labels and assignees', async () => {
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    await host.createPullRequest(repoDir, {
+      title: 'Fix login',
+      body: 'Spec',
+      base: 'main',
+      head: 'feature',
+      draft: true,
+      reviewers: ['alice'],
+      teamReviewers: ['web'],
+      labels: ['ai-generated'],
+      assignees: ['bob'],
+    });
+
+    expect(requests.map((r) => [`${r.method} ${r.url}`, r.body])).toEqual([
+      ['POST /repos/acme/web/pulls', { title: 'Fix login', body: 'Spec', base: 'main', head: 'feature', draft: true }],
+      ['POST /repos/acme/web/pulls/12/requested_reviewers', { reviewers: ['alice'], team_reviewers: ['web'] }],
+      ['POST /repos/acme/web/issues/12/labels', { labels: ['ai-generated'] }],
+      ['POST /repos/acme/web/issues/12/assignees', { assignees: ['bob'] }],
+    ]);
+  });
+
+  it('returns the pull request when reviewers cannot be added', async () => {
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    const pr = await host.createPullRequest(repoDir, {
+      title: 'Fix login',
+      body: 'Spec',
+      base: 'main',
+      head: 'feature',
+      reviewers: ['author'],
+      labels: ['ai-generated'],
+    });
+
+    expect(pr.url).toBe('https://github.com/acme/web/pull/12');
+    expect(pr.warnings).toHaveLength(1);
+    expect(pr.warnings![0]).toMatch(/^Could not add reviewers: .*author/);
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toContain('POST /repos/acme/web/issues/12/labels');
+  });
+
+  it('reads unresolved review threads and replies to them', async () => {
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    const threads = await host.fetchReviewThreads('https://github.com/acme/web/pull/12');
+    await host.replyToReviewThread('https://github.com/acme/web/pull/12', threads[0].id, 'Renamed');
+
+    expect(threads).toEqual([{ id: '2', path: 'b.ts', line: 7, comments: [{ author: 'alice', body: 'Rename this' }] }]);
+    expect(requests[0].body).toMatchObject({ variables: { owner: 'acme', name: 'web', number: 12 } });
+    expect(requests[1]).toMatchObject({ method: 'POST', url: '/repos/acme/web/pulls/12/comments/2/replies', body: { body: 'Renamed' } });
+  });
+
+  it('reads check runs and their logs', async () => {
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    const prUrl = 'https://github.com/acme/web/pull/12';
+
+    const checks = await host.fetchChecks(prUrl, 'abc123');
+    expect(checks).toHaveLength(104);
+    expect(checks.slice(100)).toEqual([
+      { id: '1', name: 'lint', state: 'success', url: 'https://ci/1' },
+      { id: '2', name: 'test', state: 'failure', url: 'https://ci/2' },
+      { id: '3', name: 'deploy-preview', state: 'pending', url: undefined },
+      { id: 'status:abc123:50', name: 'ci/jenkins', state: 'failure', url: 'https://jenkins/50' },
+    ]);
+    expect(await host.fetchCheckLog(prUrl, '2')).toBe('Error: expected 2, got 3');
+    // Not an Actions job — falls back to the check run output
+    expect(await host.fetchCheckLog(prUrl, '4')).toBe('Coverage dropped\n\n-2%');
+    expect(await host.fetchCheckLog(prUrl, 'status:abc123:50')).toBe('Build errored\n\nhttps://jenkins/50');
+  });
+
+  it('only falls back to the check run output when there is no Actions job', async () => {
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    await expect(host.fetchCheckLog('https://github.com/acme/web/pull/12', '5')).rejects.toThrow('403');
+  });
+
+  it('reads status and comments through the PR URL', async () => {
+    const host = createGitHubHost({ token: 'ghp_test', apiUrl });
+    expect(await host.fetchPullRequestStatus('https://github.com/acme/web/pull/12')).toEqual({ state: 'open' });
+    await host.commentOnPullRequest('https://github.com/acme/web/pull/12', 'Done');
+
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'GET /repos/acme/web/pulls/12',
+      'POST /repos/acme/web/issues/12/comments',
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createGitLabHost, parseMergeRequestUrl, mergeRequestStatus } from '../gitlab.js';
+import { startStandInServer, type RecordedRequest, type StandInServer } from './helpers/stand-in-server.js';
+
+describe('parseMergeRequestUrl', () => {
+  it('splits instance, project path and MR number', () => {
+    expect(parseMergeRequestUrl('https://gitlab.example.com/platform/billing/api/-/merge_requests/12')).toEqual({
+      baseUrl: 'https://gitlab.example.com',
+      project: 'platform/billing/api',
+      iid: 12,
+    });
+  });
+
+  it('strips an instance path prefix', () => {
+    expect(parseMergeRequestUrl('https://example.com/gitlab/team/api/-/merge_requests/3', 'https://example.com/gitlab/')).toEqual({
+      baseUrl: 'https://example.com/gitlab',
+      project: 'team/api',
+      iid: 3,
+    });
+  });
+
+  it('rejects other URLs', () => {
+    expect(parseMergeRequestUrl('https://github.com/acme/web/pull/1')).toBeNull();
+  });
+});
+
+describe('mergeRequestStatus', () => {
+  it('maps merged, closed and open states', () => {
+    expect(mergeRequestStatus({ iid: 1, web_url: '', state: 'merged', merged_at: '2026-03-01T10:00:00Z', merge_user: { username: 'dev' } }))
+      .toEqual({ state: 'merged', merge: { mergedAt: '2026-03-01T10:00:00Z', mergedBy: 'dev' } });
+    expect(mergeRequestStatus({ iid: 1, web_url: '', state: 'closed' })).toEqual({ state: 'closed' });
+    expect(mergeRequestStatus({ iid: 1, web_url: '', state: 'locked' })).toEqual({ state: 'open' });
+  });
+});
+
+// -- Against a local stand-in for the GitLab API --
+
+describe('GitLab host', () => {
+  let server: StandInServer;
+  let baseUrl: string;
+  let repoDir: string;
+  let requests: RecordedRequest[] = [];
+
+  beforeAll(async () => {
+    server = await startStandInServer((req, send, res) => {
+      if (req.url.startsWith('/api/v4/users?')) {
+        return send(200, req.url.endsWith('=alice') ? [{ id: 11 }] : req.url.endsWith('=bob') ? [{ id: 12 }] : []);
+      }
+      if (req.method === 'POST' && req.url.endsWith('/merge_requests')) {
+        return send(200, { iid: 7, web_url: `${baseUrl}/platform/api/-/merge_requests/7`, state: 'opened' });
+      }
+      if (req.url.includes('/pipelines?sha=many')) return send(200, [{ id: 91 }]);
+      if (req.url.includes('/pipelines?sha=')) return send(200, req.url.includes('sha=abc123') ? [{ id: 90 }] : []);
+      if (req.url.includes('/pipelines/91/jobs')) {
+        return send(200, req.url.endsWith('&page=1')
+          ? Array.from({ length: 100 }, (_, i) => ({ id: 100 + i, name: `shard ${i}`, status: 'success' }))
+          : [{ id: 200, name: 'e2e', status: 'failed' }]);
+      }
+      if (req.method === 'GET' && req.url.includes('/merge_requests/8/discussions')) {
+        return send(200, req.url.endsWith('&page=1')
+          ? Array.from({ length: 100 }, (_, i) => ({ id: `n${i}`, notes: [{ body: 'Note', resolvable: false }] }))
+          : [{ id: 'late', notes: [{ body: 'Still wrong', resolvable: true, resolved: false, author: { username: 'bob' } }] }]);
+      }
+      if (req.url.includes('/pipelines/90/jobs')) {
+        return send(200, [
+          { id: 1, name: 'test', status: 'failed', web_url: 'https://ci/1' },
+          { id: 2, name: 'lint', status: 'failed', allow_failure: true },
+          { id: 3, name: 'build', status: 'running' },
+        ]);
+      }
+      if (req.url.endsWith('/jobs/1/trace')) {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        return res.end('FAIL src/a.test.ts');
+      }
+      if (req.method === 'GET' && req.url.includes('/discussions')) {
+        return send(200, [
+          { id: 'd1', notes: [{ body: 'General note', system: false, resolvable: false }] },
+          { id: 'd2', notes: [
+            { body: 'Rename this', resolvable: true, resolved: false, author: { username: 'alice' }, position: { new_path: 'b.ts', new_line: 7 } },
+            { body: 'added 1 commit', system: true, resolvable: false },
+          ] },
+          { id: 'd3', notes: [{ body: 'Typo', resolvable: true, resolved: true, author: { username: 'alice' } }] },
+        ]);
+      }
+      if (req.method === 'GET') {
+        return send(200, { iid: 7, web_url: '', state: 'merged', merged_at: '2026-03-01T10:00:00Z', merge_user: { username: 'dev' } });
+      }
+      send(200, {});
+    });
+    requests = server.requests;
+    baseUrl = server.url;
+
+    repoDir = join(tmpdir(), `gitlab-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(repoDir, { recursive: true });
+    execSync('git init -q', { cwd: repoDir });
+    execSync('git remote add upstream git@gitlab.internal:platform/api.git', { cwd: repoDir });
+  });
+
+  afterAll(() => {
+    server.close();
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('opens a merge request in the project of the configured remote', async () => {
+    const host = createGitLabHost({ token: 'glpat', url: baseUrl, remote: 'upstream' });
+    const mr = await host.createPullRequest(repoDir, { title: 'Fix login', body: 'Spec', base: 'main', head: 'notion/abc/fix-login' });
+
+    expect(mr).toEqual({ url: `${baseUrl}/platform/api/-/merge_requests/7`, number: 7 });
+    expect(requests[0]).toEqual({
+      method: 'POST',
+      url: '/api/v4/projects/platform%2Fapi/merge_requests',
+      auth: 'glpat',
+      body: { source_branch: 'notion/abc/fix-login', target_branch: 'main', title: 'Fix login', description: 'Spec' },
+    });
+  });
+
+  it('marks drafts in the title and resolves reviewers and assignees to user ids', async () => {
+    const host = createGitLabHost({ token: 'glpat', url: baseUrl, remote: 'upstream' });
+    await host.createPullRequest(repoDir, {
+      title: 'Fix login',
+      body: 'Spec',
+      base: 'main',
+      head: 'fix-login',
+      draft: true,
+      reviewers: ['alice'],
+      labels: ['ai', 'backend'],
+      assignees: ['bob'],
+    });
+
+    expect(requests.at(-1)?.body).toEqual({
+      source_branch: 'fix-login',
+      target_branch: 'main',
+      title: 'Draft: Fix login',
+      description: 'Spec',
+      labels: 'ai,backend',
+      reviewer_ids: [11],
+      assignee_ids: [12],
+    });
+  });
+
+  it('skips unknown usernames with a warning', async () => {
+    const host = createGitLabHost({ token: 'glpat', url: baseUrl, remote: 'upstream' });
+    const mr = await host.createPullRequest(repoDir, { title: 'x', body: '', base: 'main', head: 'b', reviewers: ['nobody', 'alice'] });
+
+    expect(mr.warnings).toEqual(['GitLab user "nobody" not found']);
+    expect(requests.at(-1)?.body).toMatchObject({ reviewer_ids: [11] });
+  });
+
+  it('reads unresolved discussions and replies to them', async () => {
+    const host = createGitLabHost({ token: 'glpat', url: baseUrl });
+    const url = `${baseUrl}/platform/api/-/merge_requests/7`;
+
+    expect(await host.fetchReviewThreads(url)).toEqual([
+      { id: 'd2', path: 'b.ts', line: 7, comments: [{ author: 'alice', body: 'Rename this' }] },
+    ]);
+    await host.replyToReviewThread(url, 'd2', 'Renamed');
+    expect(requests[1]).toMatchObject({ method: 'POST', url: '/api/v4/projects/platform%2Fapi/merge_requests/7/discussions/d2/notes', body: { body: 'Renamed' } });
+  });
+
+  it('reads the jobs of the newest pipeline for a commit', async () => {
+    const host = createGitLabHost({ token: 'glpat', url: baseUrl });
+    const url = `${baseUrl}/platform/api/-/merge_requests/7`;
+
+    expect(await host.fetchChecks(url, 'abc123')).toEqual([
+      { id: '1', name: 'test', state: 'failure', url: 'https://ci/1' },
+      { id: '2', name: 'lint', state: 'success', url: undefined },
+      { id: '3', name: 'build', state: 'pending', url: undefined },
+    ]);
+    expect(await host.fetchCheckLog(url, '1')).toBe('FAIL src/a.test.ts');
+    expect(await host.fetchChecks(url, 'def456')).toEqual([]);
+  });
+
+  it('reads every page of discussions and pipeline jobs', async () => {
+    const host = createGitLabHost({ token: 'glpat', url: baseUrl });
+
+    expect(await host.fetchReviewThreads(`${baseUrl}/platform/api/-/merge_requests/8`)).toEqual([
+      { id: 'late', path: undefined, line: undefined, comments: [{ author: 'bob', body: 'Still wrong' }] },
+    ]);
+    const checks = await host.fetchChecks(`${baseUrl}/platform/api/-/merge_requests/8`, 'many');
+    expect(checks).toHaveLength(101);
+    expect(checks.at(-1)).toEqual({ id: '200', name: 'e2e', state: 'failure', url: undefined });
+    expect(requests.filter((r) => r.url.includes('page=2'))).toHaveLength(2);
+  });
+
+  it('reads status and comments through the merge request URL', async () => {
+    const host = createGitLabHost({ token: 'glpat', url: baseUrl });
+    const url = `${baseUrl}/platform/api/-/merge_requests/7`;
+
+    expect(await host.fetchPullRequestStatus(url)).toEqual({ state: 'merged', merge: { mergedAt: '2026-03-01T10:00:00Z', mergedBy: 'dev' } });
+    await host.commentOnPullRequest(url, 'Addressed review');
+    await host.updatePullRequest(url, { body: 'New body' });
+
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'GET /api/v4/projects/platform%2Fapi/merge_requests/7',
+      'POST /api/v4/projects/platform%2Fapi/merge_requests/7/notes',
+      'PUT /api/v4/projects/platform%2Fapi/merge_requests/7',
+    ]);
+    expect(requests[1].body).toEqual({ body: 'Addressed review' });
+  });
+});
@@ -0,0 +1,49 @@
+import { createServer, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// -- Local stand-in for the tracker and git host APIs --
+//
+// Records every request (JSON body parsed) before handing it to the test's
+// handler, which answers with `send` or writes to the raw response.
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  /** Authorization header, or GitLab's PRIVATE-TOKEN. */
+  auth?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  body?: any;
+}
+
+export type Send = (status: number, data: unknown) => void;
+
+export interface StandInServer {
+  /** Base URL, no trailing slash. */
+  url: string;
+  /** Requests received so far, oldest first. Clear with `requests.length = 0`. */
+  requests: RecordedRequest[];
+  close(): void;
+}
+
+export async function startStandInServer(
+  handle: (req: RecordedRequest, send: Send, res: ServerResponse) => void,
+): Promise<StandInServer> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c) => (raw += c));
+    req.on('end', () => {
+      const auth = req.headers.authorization ?? (req.headers['private-token'] as string | undefined);
+      const request: RecordedRequest = { method: req.method!, url: req.url!, auth, body: raw ? JSON.parse(raw) : undefined };
+      requests.push(request);
+      const send: Send = (status, data) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+      handle(request, send, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, requests, close: () => server.close() };
+}
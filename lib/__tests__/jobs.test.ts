@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createJobLedger } from '../jobs.js';
+
+const ticket = (id: string) => ({ id, title: `Ticket ${id}`, project: 'WebApp', status: 'Execute' });
+
+describe('job ledger', () => {
+  let tmpDir: string;
+  let path: string;
+
+  beforeEach(() => {
+    tmpDir = join(tmpdir(), `jobs-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(tmpDir, { recursive: true });
+    path = join(tmpDir, '.ticket-to-pr', 'jobs.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('records a run through its phases', () => {
+    const jobs = createJobLedger(path);
+    jobs.start(ticket('a'), 'execute');
+    jobs.update('a', { phase: 'agent', branch: 'notion/a/x', worktreeDir: '/wt/a' });
+    jobs.update('a', { phase: 'push', cost: 1.25 });
+    jobs.finish('a', 'succeeded', { prUrl: 'https://example.test/pr/1' });
+
+    expect(jobs.all()).toMatchObject([{
+      ticketId: 'a', kind: 'execute', outcome: 'succeeded', phase: 'push', cost: 1.25, branch: 'notion/a/x', prUrl: 'https://example.test/pr/1',
+    }]);
+    expect(readFileSync(path, 'utf-8').trim().split('\n')).toHaveLength(4);
+  });
+
+  it('ignores updates for tickets without a running job', () => {
+    const jobs = createJobLedger(path);
+    jobs.update('a', { phase: 'agent' });
+    jobs.finish('a', 'failed');
+    expect(jobs.all()).toEqual([]);
+  });
+
+  it('finds runs a restart cut off', () => {
+    const before = createJobLedger(path);
+    before.start(ticket('a'), 'execute');
+    before.update('a', { phase: 'validation' });
+    before.start(ticket('b'), 'review');
+    before.finish('b', 'succeeded');
+
+    const after = createJobLedger(path);
+    expect(after.running()).toMatchObject([{ ticketId: 'a', phase: 'validation' }]);
+
+    after.finish('a', 'interrupted', { error: 'restart' });
+    expect(after.running()).toEqual([]);
+    expect(createJobLedger(path).running()).toEqual([]);
+  });
+
+  it('closes a ticket\'s running job when another one starts', () => {
+    const jobs = createJobLedger(path);
+    jobs.start(ticket('a'), 'execute');
+    jobs.update('a', { phase: 'agent' });
+    jobs.start(ticket('a'), 'execute');
+
+    const reloaded = createJobLedger(path);
+    expect(reloaded.all().map((job) => job.outcome)).toEqual(['interrupted', 'running']);
+    expect(reloaded.running()).toHaveLength(1);
+  });
+
+  it('lists tickets that already had a job of a kind', () => {
+    const jobs = createJobLedger(path);
+    jobs.start(ticket('a'), 'testing');
+    jobs.finish('a', 'succeeded');
+    jobs.start(ticket('b'), 'feedback');
+    jobs.finish('b', 'failed');
+    jobs.start(ticket('c'), 'testing');
+
+    expect(createJobLedger(path).ticketsWith('testing')).toEqual(new Set(['a']));
+    expect(createJobLedger(path).ticketsWith('feedback')).toEqual(new Set(['b']));
+  });
+
+  it('records finished jobs without closing the running one', () => {
+    const jobs = createJobLedger(path);
+    jobs.start(ticket('a'), 'testing');
+    jobs.record(ticket('a'), 'merge', 'succeeded', { prUrl: 'https://github.com/acme/web/pull/1' });
+    jobs.finish('a', 'succeeded');
+
+    const reloaded = createJobLedger(path);
+    expect(reloaded.ticketsWith('merge')).toEqual(new Set(['a']));
+    expect(reloaded.all().map((job) => [job.kind, job.outcome])).toEqual([['testing', 'succeeded'], ['merge', 'succeeded']]);
+  });
+
+  it('compacts to one line per job and skips truncated lines', () => {
+    const jobs = createJobLedger(path);
+    jobs.start(ticket('a'), 'execute');
+    jobs.update('a', { phase: 'agent' });
+    jobs.finish('a', 'failed', { error: 'boom' });
+    appendFileSync(path, '{"id":"cut');
+
+    const reloaded = createJobLedger(path);
+    reloaded.compact();
+    const lines = readFileSync(path, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({ ticketId: 'a', outcome: 'failed', error: 'boom' });
+  });
+
+  it('drops finished jobs older than the retention window when compacting', () => {
+    const old = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString();
+    const job = (id: string, ticketId: string, outcome: string) =>
+      JSON.stringify({ id, ticketId, title: 'x', project: 'WebApp', kind: 'execute', outcome, startedAt: old, updatedAt: old }) + '\n';
+    mkdirSync(join(tmpDir, '.ticket-to-pr'), { recursive: true });
+    appendFileSync(path, job('1', 'a', 'succeeded') + job('2', 'b', 'running'));
+    const jobs = createJobLedger(path);
+    jobs.start(ticket('c'), 'execute');
+    jobs.finish('c', 'failed');
+
+    jobs.compact(7 * 24 * 60 * 60 * 1000);
+    expect(jobs.all().map((j) => j.ticketId)).toEqual(['b', 'c']);
+    expect(createJobLedger(path).all().map((j) => j.ticketId)).toEqual(['b', 'c']);
+  });
+});
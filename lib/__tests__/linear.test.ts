@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { TicketSource } from '../../config.js';
+import { startStandInServer, type StandInServer } from './helpers/stand-in-server.js';
+import { createLinearSource, columnToState, stateToColumn } from '../linear.js';
+
+const STATES = { Review: 'Needs Review', Execute: 'Ready to Build', 'PR Ready': 'In Review' };
+
+// -- Local stand-in for the Linear GraphQL API --
+
+interface FakeIssue {
+  id: string;
+  title: string;
+  state: string;
+  comments: Array<{ body: string; createdAt: string; user: { name: string } }>;
+  attachments: string[];
+}
+
+let issues: FakeIssue[] = [];
+const workflowStates = ['Needs Review', 'Scored', 'Ready to Build', 'In Progress', 'In Review', 'Failed'];
+
+function issueJson(issue: FakeIssue) {
+  return {
+    id: issue.id,
+    identifier: `ENG-${issue.id}`,
+    title: issue.title,
+    description: `Description of ${issue.title}`,
+    url: `https://linear.app/acme/issue/ENG-${issue.id}`,
+    state: { name: issue.state },
+    project: { name: 'WebApp' },
+  };
+}
+
+function resolve(query: string, v: Record<string, string>): unknown {
+  const issue = issues.find((i) => i.id === v.id || i.id === v.issueId);
+  if (query.includes('workflowStates')) {
+    return { workflowStates: { nodes: workflowStates.includes(v.name) ? [{ id: `state:${v.name}` }] : [] } };
+  }
+  if (query.includes('issueUpdate')) {
+    issue!.state = v.stateId.replace('state:', '');
+    return { issueUpdate: { success: true } };
+  }
+  if (query.includes('commentCreate')) {
+    issue!.comments.push({ body: v.body, createdAt: new Date().toISOString(), user: { name: 'API' } });
+    return { commentCreate: { success: true } };
+  }
+  if (query.includes('attachmentLinkURL')) {
+    issue!.attachments.push(v.url);
+    return { attachmentLinkURL: { success: true } };
+  }
+  if (query.includes('comments(')) {
+    return { issue: { comments: { nodes: issue!.comments, pageInfo: { hasNextPage: false, endCursor: null } } } };
+  }
+  if (query.includes('issues(')) {
+    const nodes = issues.filter((i) => i.state === v.state).map(issueJson);
+    return { issues: { nodes, pageInfo: { hasNextPage: false, endCursor: null } } };
+  }
+  return { issue: issueJson(issue!) };
+}
+
+function startServer(): Promise<StandInServer> {
+  return startStandInServer((req, send) => send(200, { data: resolve(req.body.query, req.body.variables) }));
+}
+
+let server: StandInServer;
+let source: TicketSource;
+
+beforeAll(async () => {
+  server = await startServer();
+  source = createLinearSource({ apiKey: 'lin_test', team: 'ENG', states: STATES, apiUrl: server.url });
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  issues = [
+    { id: '1', title: 'Add dark mode', state: 'Needs Review', comments: [], attachments: [] },
+    { id: '2', title: 'Fix typo', state: 'Ready to Build', comments: [], attachments: [] },
+  ];
+});
+
+describe('state mapping', () => {
+  it('maps columns to configured states', () => {
+    expect(columnToState('Review', STATES)).toBe('Needs Review');
+    expect(columnToState('Scored', STATES)).toBe('Scored');
+  });
+
+  it('maps states back to columns', () => {
+    expect(stateToColumn('In Review', STATES)).toBe('PR Ready');
+    expect(stateToColumn('Scored', STATES)).toBe('Scored');
+    expect(stateToColumn('Backlog', STATES)).toBe('');
+  });
+
+  it('requires a team', () => {
+    expect(() => createLinearSource({ apiKey: 'k', team: '' })).toThrow('Linear team not configured');
+  });
+});
+
+describe('Linear ticket source', () => {
+  it('fetches tickets by mapped state', async () => {
+    const tickets = await source.fetchTicketsByStatus('Execute');
+    expect(tickets).toEqual([{ id: '2', title: 'Fix typo', project: 'WebApp', status: 'Execute' }]);
+    expect(source.ticketUrl('2')).toBe('https://linear.app/acme/issue/ENG-2');
+  });
+
+  it('moves tickets to the mapped workflow state', async () => {
+    await source.moveTicketStatus('1', 'Scored');
+    expect(issues[0].state).toBe('Scored');
+  });
+
+  it('fails clearly when a mapped state is missing', async () => {
+    await expect(source.moveTicketStatus('1', 'Testing')).rejects.toThrow('no workflow state "Testing"');
+  });
+
+  it('round-trips review results through a comment', async () => {
+    await source.writeReviewResults('1', {
+      easeScore: 6,
+      confidenceScore: 9,
+      spec: 'Toggle the theme',
+      impactReport: 'Header only',
+      affectedFiles: ['src/header.tsx'],
+      testCases: [],
+    });
+    const details = await source.fetchTicketDetails('1');
+    expect(details.description).toBe('Description of Add dark mode');
+    expect(details.ease).toBe(6);
+    expect(details.confidence).toBe(9);
+    expect(details.spec).toBe('Toggle the theme');
+    expect(details.impact).toContain('Files: src/header.tsx');
+    expect(await source.fetchComments('1')).toEqual([]);
+  });
+
+  it('attaches the PR to the issue', async () => {
+    await source.writeExecutionResults('2', { branch: 'b', cost: 2, prUrl: 'https://github.com/acme/web/pull/3' });
+    expect(issues[1].attachments).toEqual(['https://github.com/acme/web/pull/3']);
+  });
+});
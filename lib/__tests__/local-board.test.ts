@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, readFileSync, mkdirSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { TicketSource } from '../../config.js';
+import {
+  createLocalBoardSource,
+  parseTicketFile,
+  serializeTicketFile,
+  parseComments,
+} from '../local-board.js';
+
+const TICKET = `---
+title: Add dark mode
+project: WebApp
+---
+
+Users want a dark theme.
+
+## Comments
+
+### 2026-01-01T00:00:00Z — Alice
+Please match the marketing site colors.
+`;
+
+// -- File format --
+
+describe('parseTicketFile', () => {
+  it('reads front-matter, description and sections', () => {
+    const file = parseTicketFile(TICKET);
+    expect(file.fields).toEqual({ title: 'Add dark mode', project: 'WebApp' });
+    expect(file.description).toBe('Users want a dark theme.');
+    expect(file.sections.Comments).toContain('Alice');
+  });
+
+  it('keeps non-managed headings inside the section', () => {
+    const file = parseTicketFile('Desc\n\n## Spec\n\nDo it\n\n## Acceptance Tests\n- works\n\n## Impact\n\nSmall');
+    expect(file.sections.Spec).toBe('Do it\n\n## Acceptance Tests\n- works');
+    expect(file.sections.Impact).toBe('Small');
+  });
+
+  it('handles files without front-matter', () => {
+    const file = parseTicketFile('Just a description');
+    expect(file.fields).toEqual({});
+    expect(file.description).toBe('Just a description');
+  });
+
+  it('round-trips through serializeTicketFile', () => {
+    const file = parseTicketFile(TICKET);
+    expect(parseTicketFile(serializeTicketFile(file))).toEqual(file);
+  });
+});
+
+describe('parseComments', () => {
+  it('parses timestamped comment entries', () => {
+    expect(parseComments('### 2026-01-01T00:00:00Z — Alice\nHello\n\n### 2026-01-02T00:00:00Z — Bob\nHi')).toEqual([
+      { createdTime: '2026-01-01T00:00:00Z', author: 'Alice', text: 'Hello' },
+      { createdTime: '2026-01-02T00:00:00Z', author: 'Bob', text: 'Hi' },
+    ]);
+  });
+
+  it('returns empty list for missing section', () => {
+    expect(parseComments(undefined)).toEqual([]);
+  });
+});
+
+// -- Full pipeline against a temp board --
+
+describe('local board ticket source', () => {
+  let boardDir: string;
+  let source: TicketSource;
+
+  beforeEach(() => {
+    boardDir = join(tmpdir(), `board-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(join(boardDir, 'review'), { recursive: true });
+    writeFileSync(join(boardDir, 'review', 'dark-mode.md'), TICKET);
+    source = createLocalBoardSource(boardDir);
+  });
+
+  afterEach(() => {
+    rmSync(boardDir, { recursive: true, force: true });
+  });
+
+  it('lists tickets by column folder', async () => {
+    expect(await source.fetchTicketsByStatus('Review')).toEqual([
+      { id: 'dark-mode', title: 'Add dark mode', project: 'WebApp', status: 'Review' },
+    ]);
+    expect(await source.fetchTicketsByStatus('Execute')).toEqual([]);
+  });
+
+  it('runs a ticket through review and execute', async () => {
+    await source.writeReviewResults('dark-mode', {
+      easeScore: 8,
+      confidenceScore: 9,
+      spec: 'Add a theme toggle',
+      impactReport: 'Header only',
+      affectedFiles: ['src/header.tsx'],
+      testCases: ['GIVEN dark mode WHEN toggled THEN colors change'],
+    });
+    await source.moveTicketStatus('dark-mode', 'Scored');
+    await source.moveTicketStatus('dark-mode', 'Execute');
+
+    const details = await source.fetchTicketDetails('dark-mode');
+    expect(details.status).toBe('Execute');
+    expect(details.ease).toBe(8);
+    expect(details.confidence).toBe(9);
+    expect(details.spec).toContain('## Acceptance Tests\n- GIVEN dark mode');
+    expect(details.impact).toContain('Files: src/header.tsx');
+
+    await source.writeExecutionResults('dark-mode', { branch: 'notion/dark/add-dark-mode', cost: 1.5, prUrl: 'https://example.test/pr/1' });
+    await source.moveTicketStatus('dark-mode', 'PR Ready');
+
+    expect(existsSync(join(boardDir, 'review', 'dark-mode.md'))).toBe(false);
+    const content = readFileSync(join(boardDir, 'pr-ready', 'dark-mode.md'), 'utf-8');
+    expect(content).toContain('branch: notion/dark/add-dark-mode');
+    expect(content).toContain('cost: $1.50');
+    expect(content).toContain('prUrl: https://example.test/pr/1');
+    expect((await source.fetchTicketDetails('dark-mode')).prUrl).toBe('https://example.test/pr/1');
+
+    await source.writePRMerge('dark-mode', { mergedAt: '2026-01-02T00:00:00Z', mergedBy: 'octocat' });
+    const merged = readFileSync(join(boardDir, 'pr-ready', 'dark-mode.md'), 'utf-8');
+    expect(merged).toContain('mergedAt: 2026-01-02T00:00:00Z');
+    expect(merged).toContain('mergedBy: octocat');
+  });
+
+  it('records failures and moves to the failed folder', async () => {
+    await source.writeFailure('dark-mode', 'Build broke');
+    const details = await source.fetchTicketDetails('dark-mode');
+    expect(details.status).toBe('Failed');
+    expect(details.impact).toBe('ERROR: Build broke');
+    expect(existsSync(join(boardDir, 'failed', 'dark-mode.md'))).toBe(true);
+  });
+
+  it('keeps bot comments apart from human comments', async () => {
+    await source.addComment('dark-mode', '🧪 Ready for Testing');
+    expect(await source.fetchComments('dark-mode')).toEqual([
+      { createdTime: '2026-01-01T00:00:00Z', author: 'Alice', text: 'Please match the marketing site colors.' },
+    ]);
+    expect(await source.hasTestingMarker('dark-mode')).toBe(true);
+    expect(await source.hasFeedbackMarker('dark-mode')).toBe(false);
+  });
+
+  it('keeps headings inside written content from splitting sections or comments', async () => {
+    await source.writeReviewResults('dark-mode', {
+      easeScore: 8,
+      confidenceScore: 9,
+      spec: 'Toggle in the header\n## Impact\n### Step 1\n\\## Spec',
+      impactReport: 'Header only\n## Comments',
+      affectedFiles: [],
+      testCases: [],
+    });
+    await source.addComment('dark-mode', 'Review notes\n### Risks\n## Spec\nNone');
+
+    const details = await source.fetchTicketDetails('dark-mode');
+    expect(details.spec).toContain('Toggle in the header\n## Impact\n### Step 1\n\\## Spec');
+    expect(details.impact).toContain('Header only\n## Comments');
+    const file = parseTicketFile(readFileSync(join(boardDir, 'review', 'dark-mode.md'), 'utf-8'));
+    expect(parseComments(file.sections.Comments).map((c) => c.text)).toEqual([
+      'Please match the marketing site colors.',
+      'Review notes\n### Risks\n## Spec\nNone',
+    ]);
+    expect(parseTicketFile(serializeTicketFile(file))).toEqual(file);
+  });
+
+    it('throws for unknown tickets', async () => {
+    await expect(source.fetchTicketDetails('missing')).rejects.toThrow('not found on local board');
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import type { RichTextItemResponse } from '@notionhq/client/build/src/api-endpoints.js';
+import {
+  richTextToMarkdown,
+  blockToMarkdown,
+  blocksToMarkdown,
+  extractAttachments,
+  type NotionBlock,
+} from '../notion-markdown.js';
+
+// -- Test helpers --
+
+type Annotations = Partial<{ bold: boolean; italic: boolean; strikethrough: boolean; code: boolean }>;
+
+function span(text: string, annotations: Annotations = {}, href: string | null = null): RichTextItemResponse {
+  return {
+    type: 'text',
+    text: { content: text, link: href ? { url: href } : null },
+    plain_text: text,
+    annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false, color: 'default', ...annotations },
+    href,
+  } as RichTextItemResponse;
+}
+
+function richText(text: string): RichTextItemResponse[] {
+  return text ? [span(text)] : [];
+}
+
+function makeBlock(type: string, text: string, extra?: Record<string, unknown>, children?: NotionBlock[]): NotionBlock {
+  return {
+    type,
+    [type]: {
+      rich_text: richText(text),
+      ...extra,
+    },
+    id: 'block-id',
+    object: 'block',
+    created_time: '',
+    last_edited_time: '',
+    has_children: !!children,
+    archived: false,
+    in_trash: false,
+    parent: { type: 'page_id', page_id: '' },
+    created_by: { object: 'user', id: '' },
+    last_edited_by: { object: 'user', id: '' },
+    ...(children ? { children } : {}),
+  } as unknown as NotionBlock;
+}
+
+// -- richTextToMarkdown --
+
+describe('richTextToMarkdown', () => {
+  it('keeps annotations', () => {
+    expect(richTextToMarkdown([
+      span('Use '),
+      span('bold', { bold: true }),
+      span(', '),
+      span('italic', { italic: true }),
+      span(', '),
+      span('old', { strikethrough: true }),
+      span(' and '),
+      span('npm test', { code: true }),
+    ])).toBe('Use **bold**, _italic_, ~~old~~ and `npm test`');
+  });
+
+  it('keeps whitespace outside markers', () => {
+    expect(richTextToMarkdown([span('Hello ', { bold: true }), span('world')])).toBe('**Hello** world');
+  });
+
+  it('keeps links', () => {
+    expect(richTextToMarkdown([span('the docs', {}, 'https://example.com/docs')])).toBe('[the docs](https://example.com/docs)');
+  });
+
+  it('renders link mentions and user mentions', () => {
+    const link = { type: 'mention', mention: { type: 'link_mention', link_mention: { href: 'https://github.com/o/r/issues/1', title: 'Issue #1' } }, plain_text: 'https://github.com/o/r/issues/1', annotations: span('').annotations, href: 'https://github.com/o/r/issues/1' } as RichTextItemResponse;
+    const user = { type: 'mention', mention: { type: 'user', user: { id: 'u' } }, plain_text: 'Alice', annotations: span('').annotations, href: null } as RichTextItemResponse;
+    expect(richTextToMarkdown([link])).toBe('[Issue #1](https://github.com/o/r/issues/1)');
+    expect(richTextToMarkdown([user])).toBe('@Alice');
+  });
+
+  it('renders inline equations', () => {
+    const eq = { type: 'equation', equation: { expression: 'e^{i\\pi}' }, plain_text: 'e^{i\\pi}', annotations: span('').annotations, href: null } as RichTextItemResponse;
+    expect(richTextToMarkdown([span('See '), eq])).toBe('See $e^{i\\pi}$');
+  });
+});
+
+// -- blockToMarkdown --
+
+describe('blockToMarkdown', () => {
+  it('converts paragraph', () => {
+    expect(blockToMarkdown(makeBlock('paragraph', 'Hello'))).toBe('Hello');
+  });
+
+  it('converts heading_1', () => {
+    expect(blockToMarkdown(makeBlock('heading_1', 'Title'))).toBe('# Title');
+  });
+
+  it('converts heading_2', () => {
+    expect(blockToMarkdown(makeBlock('heading_2', 'Subtitle'))).toBe('## Subtitle');
+  });
+
+  it('converts heading_3', () => {
+    expect(blockToMarkdown(makeBlock('heading_3', 'Section'))).toBe('### Section');
+  });
+
+  it('converts bulleted_list_item', () => {
+    expect(blockToMarkdown(makeBlock('bulleted_list_item', 'Item'))).toBe('- Item');
+  });
+
+  it('converts numbered_list_item', () => {
+    expect(blockToMarkdown(makeBlock('numbered_list_item', 'Step'))).toBe('1. Step');
+    expect(blockToMarkdown(makeBlock('numbered_list_item', 'Step'), 3)).toBe('3. Step');
+  });
+
+  it('converts unchecked to_do', () => {
+    expect(blockToMarkdown(makeBlock('to_do', 'Task', { checked: false }))).toBe('- [ ] Task');
+  });
+
+  it('converts checked to_do', () => {
+    expect(blockToMarkdown(makeBlock('to_do', 'Done', { checked: true }))).toBe('- [x] Done');
+  });
+
+  it('converts code block with language', () => {
+    const result = blockToMarkdown(makeBlock('code', 'const x = 1', { language: 'typescript' }));
+    expect(result).toBe('```typescript\nconst x = 1\n```');
+  });
+
+  it('converts code block without language', () => {
+    const result = blockToMarkdown(makeBlock('code', 'print("hi")'));
+    expect(result).toBe('```\nprint("hi")\n```');
+  });
+
+  it('converts quote', () => {
+    expect(blockToMarkdown(makeBlock('quote', 'Wise words'))).toBe('> Wise words');
+  });
+
+  it('converts callout with its icon', () => {
+    expect(blockToMarkdown(makeBlock('callout', 'Note', { icon: { type: 'emoji', emoji: '💡' } }))).toBe('> 💡 Note');
+  });
+
+  it('converts equation block', () => {
+    expect(blockToMarkdown(makeBlock('equation', '', { expression: 'a^2 + b^2 = c^2' }))).toBe('$$\na^2 + b^2 = c^2\n$$');
+  });
+
+  it('converts divider', () => {
+    expect(blockToMarkdown(makeBlock('divider', ''))).toBe('---');
+  });
+
+  it('converts images with caption', () => {
+    const block = makeBlock('image', '', { type: 'file', file: { url: 'https://files.example/mock.png?sig=1' }, caption: richText('Mockup') });
+    expect(blockToMarkdown(block)).toBe('![Mockup](https://files.example/mock.png?sig=1)');
+  });
+
+  it('names uncaptioned files after the URL', () => {
+    const block = makeBlock('pdf', '', { type: 'external', external: { url: 'https://example.com/specs/api.pdf' }, caption: [] });
+    expect(blockToMarkdown(block)).toBe('[api.pdf](https://example.com/specs/api.pdf)');
+  });
+
+  it('converts bookmarks', () => {
+    expect(blockToMarkdown(makeBlock('bookmark', '', { url: 'https://example.com', caption: [] }))).toBe('[https://example.com](https://example.com)');
+  });
+
+  it('falls back to rich text for unknown types', () => {
+    expect(blockToMarkdown(makeBlock('template', 'Note'))).toBe('Note');
+  });
+});
+
+// -- blocksToMarkdown --
+
+describe('blocksToMarkdown', () => {
+  it('indents nested children under their parent', () => {
+    const outer = makeBlock('bulleted_list_item', 'Outer', {}, [makeBlock('bulleted_list_item', 'Inner')]);
+    expect(blocksToMarkdown([makeBlock('paragraph', 'Intro'), outer])).toBe('Intro\n\n- Outer\n  - Inner');
+  });
+
+  it('skips empty blocks', () => {
+    expect(blocksToMarkdown([makeBlock('paragraph', ''), makeBlock('paragraph', 'Text')])).toBe('Text');
+  });
+
+  it('numbers consecutive list items and restarts after a break', () => {
+    const blocks = [
+      makeBlock('numbered_list_item', 'One'),
+      makeBlock('numbered_list_item', 'Two', {}, [makeBlock('numbered_list_item', 'Sub')]),
+      makeBlock('numbered_list_item', 'Three'),
+      makeBlock('paragraph', 'Break'),
+      makeBlock('numbered_list_item', 'Again'),
+    ];
+    expect(blocksToMarkdown(blocks)).toBe('1. One\n2. Two\n   1. Sub\n3. Three\n\nBreak\n\n1. Again');
+  });
+
+  it('renders toggles with their content', () => {
+    const toggle = makeBlock('toggle', 'Details', {}, [makeBlock('paragraph', 'Hidden')]);
+    expect(blocksToMarkdown([toggle])).toBe('▸ Details\n  Hidden');
+  });
+
+  it('quotes callout children', () => {
+    const callout = makeBlock('callout', 'Heads up', { icon: { type: 'emoji', emoji: '⚠️' } }, [makeBlock('bulleted_list_item', 'Detail')]);
+    expect(blocksToMarkdown([callout])).toBe('> ⚠️ Heads up\n>\n> - Detail');
+  });
+
+  it('renders tables', () => {
+    const row = (...cells: string[]) => makeBlock('table_row', '', { cells: cells.map(richText) });
+    const table = makeBlock('table', '', { has_column_header: true }, [row('Field', 'Type'), row('id', 'uuid'), row('a|b', 'text')]);
+    expect(blocksToMarkdown([table])).toBe('| Field | Type |\n| --- | --- |\n| id | uuid |\n| a\\|b | text |');
+  });
+
+  it('adds an empty header to tables without one', () => {
+    const table = makeBlock('table', '', { has_column_header: false }, [makeBlock('table_row', '', { cells: [richText('x'), richText('y')] })]);
+    expect(blocksToMarkdown([table])).toBe('|  |  |\n| --- | --- |\n| x | y |');
+  });
+
+  it('inlines synced blocks and columns', () => {
+    const synced = makeBlock('synced_block', '', { synced_from: null }, [makeBlock('paragraph', 'Shared')]);
+    const columns = makeBlock('column_list', '', {}, [
+      makeBlock('column', '', {}, [makeBlock('paragraph', 'Left')]),
+      makeBlock('column', '', {}, [makeBlock('paragraph', 'Right')]),
+    ]);
+    expect(blocksToMarkdown([synced, columns])).toBe('Shared\n\nLeft\n\nRight');
+  });
+});
+
+// -- extractAttachments --
+
+describe('extractAttachments', () => {
+  it('collects images and files from the whole tree', () => {
+    const image = makeBlock('image', '', { type: 'file', file: { url: 'https://files.example/bug.png?sig=1' }, caption: [] });
+    const pdf = makeBlock('pdf', '', { type: 'external', external: { url: 'https://example.com/spec.pdf' }, name: 'Spec v2.pdf' });
+    const toggle = makeBlock('toggle', 'Screens', {}, [image]);
+    const bookmark = makeBlock('bookmark', '', { url: 'https://example.com' });
+    expect(extractAttachments([toggle, bookmark, pdf])).toEqual([
+      { name: 'bug.png', url: 'https://files.example/bug.png?sig=1' },
+      { name: 'Spec v2.pdf', url: 'https://example.com/spec.pdf' },
+    ]);
+  });
+});
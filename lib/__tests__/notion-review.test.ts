@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { ReviewOutput } from '../../config.js';
+import { formatSpec, formatImpact } from '../ticket-format.js';
+import type { NotionBlock } from '../notion-markdown.js';
+import {
+  REVIEW_SECTION_TITLE,
+  markdownToBlocks,
+  reviewSectionChildren,
+  reviewSectionHeading,
+  findReviewSections,
+  parseReviewSection,
+  reviewSummary,
+} from '../notion-review.js';
+
+// -- Test helpers --
+
+const RESULTS: ReviewOutput = {
+  easeScore: 7,
+  confidenceScore: 8,
+  spec: 'Add CSV export to the reports page.\n\n1. Add a button\n2. Stream rows',
+  impactReport: 'Only the reports module changes.',
+  affectedFiles: ['lib/reports.ts', 'app/reports/page.tsx'],
+  risks: 'Large reports may be slow.',
+  testCases: ['Export downloads a CSV', 'Empty report exports headers only'],
+};
+
+/** What the API returns for a block we sent: same content, plain_text filled in. */
+function toResponse(request: object, children?: NotionBlock[]): NotionBlock {
+  const [type, data] = Object.entries(request)[0] as [string, { rich_text?: Array<{ text: { content: string } }> }];
+  return {
+    object: 'block',
+    id: 'block-id',
+    type,
+    [type]: {
+      ...data,
+      rich_text: (data.rich_text ?? []).map((t) => ({
+        type: 'text',
+        text: { content: t.text.content, link: null },
+        plain_text: t.text.content,
+        annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false, color: 'default' },
+        href: null,
+      })),
+    },
+    has_children: !!children,
+    ...(children ? { children } : {}),
+  } as unknown as NotionBlock;
+}
+
+function sectionResponse(results: ReviewOutput): NotionBlock {
+  const children = reviewSectionChildren(results).map((child) => toResponse(child));
+  return toResponse({ heading_2: { rich_text: [{ text: { content: REVIEW_SECTION_TITLE } }] } }, children);
+}
+
+// -- markdownToBlocks --
+
+describe('markdownToBlocks', () => {
+  it('converts headings, lists, checkboxes and paragraphs', () => {
+    expect(markdownToBlocks('## Plan\nFirst line\nsecond line\n\n- item\n1. step\n- [x] done')).toEqual([
+      { heading_3: { rich_text: [{ text: { content: 'Plan' } }] } },
+      { paragraph: { rich_text: [{ text: { content: 'First line\nsecond line' } }] } },
+      { bulleted_list_item: { rich_text: [{ text: { content: 'item' } }] } },
+      { numbered_list_item: { rich_text: [{ text: { content: 'step' } }] } },
+      { to_do: { rich_text: [{ text: { content: 'done' } }], checked: true } },
+    ]);
+  });
+
+  it('keeps code fences and maps their language', () => {
+    expect(markdownToBlocks('```ts\nconst a = 1;\n\nconst b = 2;\n```\n```weird\nx\n```')).toEqual([
+      { code: { rich_text: [{ text: { content: 'const a = 1;\n\nconst b = 2;' } }], language: 'typescript' } },
+      { code: { rich_text: [{ text: { content: 'x' } }], language: 'plain text' } },
+    ]);
+  });
+
+  it('splits long text into 2000-character segments', () => {
+    const [block] = markdownToBlocks('a'.repeat(4500));
+    expect((block as { paragraph: { rich_text: unknown[] } }).paragraph.rich_text).toHaveLength(3);
+  });
+});
+
+// -- Review section --
+
+describe('reviewSectionChildren', () => {
+  it('lays out the review under sub-headings', () => {
+    const children = reviewSectionChildren(RESULTS);
+    const headings = children.flatMap((b) => ('heading_3' in b ? [b.heading_3.rich_text.map((t) => ('text' in t ? t.text.content : '')).join('')] : []));
+    expect(headings).toEqual(['Spec', 'Acceptance Tests', 'Affected Files', 'Risks', 'Impact']);
+    expect(children.filter((b) => 'to_do' in b)).toHaveLength(2);
+  });
+
+  it('omits empty sections', () => {
+    const children = reviewSectionChildren({ ...RESULTS, affectedFiles: [], risks: undefined, testCases: undefined });
+    expect(children.filter((b) => 'heading_3' in b)).toHaveLength(2);
+  });
+
+  it('caps the heading at one request worth of children', () => {
+    const many = reviewSectionChildren({ ...RESULTS, affectedFiles: Array.from({ length: 150 }, (_, i) => `f${i}.ts`) });
+    const heading = reviewSectionHeading(many) as { heading_2: { children: unknown[]; is_toggleable: boolean } };
+    expect(heading.heading_2.is_toggleable).toBe(true);
+    expect(heading.heading_2.children).toHaveLength(100);
+  });
+});
+
+describe('findReviewSections', () => {
+  it('finds our heading among the page blocks', () => {
+    const section = sectionResponse(RESULTS);
+    const other = toResponse({ heading_2: { rich_text: [{ text: { content: 'Notes' } }] } });
+    expect(findReviewSections([other, section])).toEqual([section]);
+  });
+});
+
+describe('parseReviewSection', () => {
+  it('reads back the same spec and impact as the property layout', () => {
+    expect(parseReviewSection(sectionResponse(RESULTS))).toEqual({
+      spec: formatSpec(RESULTS),
+      impact: formatImpact(RESULTS),
+    });
+  });
+});
+
+describe('reviewSummary', () => {
+  it('keeps the first paragraph of the spec', () => {
+    expect(reviewSummary(RESULTS)).toEqual({
+      spec: 'Add CSV export to the reports page.',
+      impact: '2 file(s) · risks noted — Only the reports module changes.',
+    });
+  });
+
+  it('clips long summaries', () => {
+    expect(reviewSummary({ ...RESULTS, spec: 'x'.repeat(500) }).spec).toHaveLength(280);
+  });
+});
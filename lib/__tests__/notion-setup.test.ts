@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { planNotionSetup, setupUpdateProperties, MANAGED_PROPERTIES, type DatabaseProperty } from '../notion-setup.js';
+
+const ALL_OPTIONS = ['Backlog', 'Review', 'Scored', 'Execute', 'In Progress', 'PR Ready', 'Testing', 'Done', 'Failed'];
+
+function status(options: string[]): DatabaseProperty {
+  return { type: 'status', status: { options: options.map((name) => ({ name })) } };
+}
+
+describe('planNotionSetup', () => {
+  it('creates every managed property on a bare board', () => {
+    const plan = planNotionSetup({ Name: { type: 'title' }, Status: status(ALL_OPTIONS) });
+    expect(Object.keys(plan.create)).toEqual(MANAGED_PROPERTIES.map((p) => p.name));
+    expect(plan.create['Reviewed At']).toBe('date');
+    expect(plan.missingStatusOptions).toEqual([]);
+  });
+
+  it('keeps existing properties and reports wrong types', () => {
+    const plan = planNotionSetup({
+      Status: status(ALL_OPTIONS),
+      Spec: { type: 'rich_text' },
+      'PR URL': { type: 'rich_text' },
+      Ease: { type: 'select' },
+    });
+    expect(plan.present).toEqual(['Spec', 'PR URL']);
+    expect(plan.conflicts).toEqual([{ name: 'Ease', found: 'select', expected: ['number'] }]);
+    expect(plan.create.Ease).toBeUndefined();
+  });
+
+  it('uses mapped property and column names', () => {
+    const plan = planNotionSetup(
+      { Stage: status(['Triage', 'Scored', 'Execute', 'In Progress', 'PR Ready', 'Failed']), Notes: { type: 'rich_text' } },
+      { properties: { Status: 'Stage', Spec: 'Notes' }, columns: { Review: 'Triage' } },
+    );
+    expect(plan.present).toEqual(['Notes']);
+    expect(plan.create.Spec).toBeUndefined();
+    expect(plan.missingStatusOptions).toEqual(['Testing', 'Done']);
+  });
+
+  it('flags a missing or mistyped Status property', () => {
+    expect(planNotionSetup({}).statusProblem).toBe('"Status" property is missing');
+    expect(planNotionSetup({ Status: { type: 'select' } }).statusProblem).toBe('"Status" is a select property, expected status');
+  });
+});
+
+describe('setupUpdateProperties', () => {
+  it('builds the databases.update payload', () => {
+    const plan = planNotionSetup({ Status: status(ALL_OPTIONS) });
+    const properties = setupUpdateProperties(plan);
+    expect(properties.Ease).toEqual({ number: { format: 'number' } });
+    expect(properties['PR URL']).toEqual({ url: {} });
+    expect(properties['Done At']).toEqual({ date: {} });
+    expect(properties.Spec).toEqual({ rich_text: {} });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import type {
   PageObjectResponse,
   BlockObjectResponse,
@@ -6,12 +6,19 @@ import type {
 } from '@notionhq/client/build/src/api-endpoints.js';
 import {
   extractPlainText,
-  blockToMarkdown,
   truncate,
   chunkRichText,
   pageToTicket,
   extractProjectName,
+  fetchBlockTree,
+  columnToStatus,
+  statusToColumn,
+  createNotionSource,
+  createNotionBoardSource,
+  getNotionDatabases,
+  sameNotionId,
 } from '../notion.js';
+import { startStandInServer, type RecordedRequest, type StandInServer } from './helpers/stand-in-server.js';
 
 // -- Test helpers --
 
@@ -63,18 +70,18 @@ function makePage(overrides: {
   } as unknown as PageObjectResponse;
 }
 
-function makeBlock(type: string, text: string, extra?: Record<string, unknown>): BlockObjectResponse {
+function makeBlock(type: string, text: string, extra?: Record<string, unknown>, opts?: { id?: string; hasChildren?: boolean }): BlockObjectResponse {
   return {
     type,
     [type]: {
       rich_text: richText(text),
       ...extra,
     },
-    id: 'block-id',
+    id: opts?.id ?? 'block-id',
     object: 'block',
     created_time: '',
     last_edited_time: '',
-    has_children: false,
+    has_children: opts?.hasChildren ?? false,
     archived: false,
     in_trash: false,
     parent: { type: 'page_id', page_id: '' },
@@ -99,62 +106,47 @@ describe('extractPlainText', () => {
   });
 });
 
-// -- blockToMarkdown --
-
-describe('blockToMarkdown', () => {
-  it('converts paragraph', () => {
-    expect(blockToMarkdown(makeBlock('paragraph', 'Hello'))).toBe('Hello');
-  });
-
-  it('converts heading_1', () => {
-    expect(blockToMarkdown(makeBlock('heading_1', 'Title'))).toBe('# Title');
-  });
-
-  it('converts heading_2', () => {
-    expect(blockToMarkdown(makeBlock('heading_2', 'Subtitle'))).toBe('## Subtitle');
-  });
-
-  it('converts heading_3', () => {
-    expect(blockToMarkdown(makeBlock('heading_3', 'Section'))).toBe('### Section');
-  });
-
-  it('converts bulleted_list_item', () => {
-    expect(blockToMarkdown(makeBlock('bulleted_list_item', 'Item'))).toBe('- Item');
-  });
-
-  it('converts numbered_list_item', () => {
-    expect(blockToMarkdown(makeBlock('numbered_list_item', 'Step'))).toBe('1. Step');
-  });
-
-  it('converts unchecked to_do', () => {
-    expect(blockToMarkdown(makeBlock('to_do', 'Task', { checked: false }))).toBe('- [ ] Task');
-  });
-
-  it('converts checked to_do', () => {
-    expect(blockToMarkdown(makeBlock('to_do', 'Done', { checked: true }))).toBe('- [x] Done');
-  });
-
-  it('converts code block with language', () => {
-    const result = blockToMarkdown(makeBlock('code', 'const x = 1', { language: 'typescript' }));
-    expect(result).toBe('```typescript\nconst x = 1\n```');
-  });
-
-  it('converts code block without language', () => {
-    const result = blockToMarkdown(makeBlock('code', 'print("hi")'));
-    expect(result).toBe('```\nprint("hi")\n```');
-  });
+// -- fetchBlockTree --
+
+describe('fetchBlockTree', () => {
+  it('fetches nested children recursively', async () => {
+    const tree: Record<string, BlockObjectResponse[]> = {
+      page: [
+        makeBlock('toggle', 'Details', {}, { id: 'toggle', hasChildren: true }),
+        makeBlock('paragraph', 'After'),
+      ],
+      toggle: [makeBlock('bulleted_list_item', 'Outer', {}, { id: 'outer', hasChildren: true })],
+      outer: [makeBlock('bulleted_list_item', 'Inner', {}, { id: 'inner' })],
+    };
+    const calls: string[] = [];
+    const blocks = await fetchBlockTree('page', async (id) => {
+      calls.push(id);
+      return tree[id] ?? [];
+    });
 
-  it('converts quote', () => {
-    expect(blockToMarkdown(makeBlock('quote', 'Wise words'))).toBe('> Wise words');
+    expect(calls).toEqual(['page', 'toggle', 'outer']);
+    expect(blocks[0].children?.[0].children?.[0].id).toBe('inner');
+    expect(blocks[1].children).toBeUndefined();
   });
 
-  it('converts divider', () => {
-    const block = { type: 'divider', divider: {}, id: 'b', object: 'block', created_time: '', last_edited_time: '', has_children: false, archived: false, in_trash: false, parent: { type: 'page_id', page_id: '' }, created_by: { object: 'user', id: '' }, last_edited_by: { object: 'user', id: '' } } as unknown as BlockObjectResponse;
-    expect(blockToMarkdown(block)).toBe('---');
+  it('does not descend into child pages', async () => {
+    const calls: string[] = [];
+    await fetchBlockTree('page', async (id) => {
+      calls.push(id);
+      return id === 'page' ? [makeBlock('child_page', '', {}, { id: 'sub', hasChildren: true })] : [];
+    });
+    expect(calls).toEqual(['page']);
   });
 
-  it('falls back to plain text for unknown types', () => {
-    expect(blockToMarkdown(makeBlock('callout', 'Note'))).toBe('Note');
+  it('reads synced block copies from the original block', async () => {
+    const calls: string[] = [];
+    const blocks = await fetchBlockTree('page', async (id) => {
+      calls.push(id);
+      if (id === 'page') return [makeBlock('synced_block', '', { synced_from: { type: 'block_id', block_id: 'original' } }, { id: 'copy', hasChildren: true })];
+      return id === 'original' ? [makeBlock('paragraph', 'Shared')] : [];
+    });
+    expect(calls).toEqual(['page', 'original']);
+    expect(blocks[0].children?.[0].id).toBe('block-id');
   });
 });
 
@@ -245,3 +237,198 @@ describe('extractProjectName', () => {
     expect(extractProjectName(page)).toBe('');
   });
 });
+
+// -- Schema mapping --
+
+const SCHEMA = {
+  properties: { Status: 'Stage', Project: 'Repo', Name: 'Task' },
+  columns: { Review: 'Needs Review', 'PR Ready': 'In Code Review' },
+};
+
+describe('column mapping', () => {
+  it('maps columns to Status options and back', () => {
+    expect(columnToStatus('Review', SCHEMA)).toBe('Needs Review');
+    expect(columnToStatus('Execute', SCHEMA)).toBe('Execute');
+    expect(statusToColumn('In Code Review', SCHEMA)).toBe('PR Ready');
+    expect(statusToColumn('Scored', SCHEMA)).toBe('Scored');
+  });
+});
+
+describe('pageToTicket with a schema', () => {
+  it('reads renamed properties and translates the status', () => {
+    const page = {
+      id: 'p1',
+      properties: {
+        Task: { type: 'title', title: richText('Fix login') },
+        Stage: { type: 'status', status: { name: 'Needs Review' } },
+        Repo: { type: 'select', select: { name: 'WebApp' } },
+      },
+    } as unknown as PageObjectResponse;
+    expect(pageToTicket(page, SCHEMA)).toEqual({ id: 'p1', title: 'Fix login', project: 'WebApp', status: 'Review' });
+  });
+});
+
+// -- Sources against a local stand-in for the Notion API --
+
+const PAGES = [
+  { id: 'p1', db: 'db-1', title: 'Fix login', status: 'Needs Review', project: 'WebApp' },
+  { id: 'p2', db: 'db-2', title: 'Add export', status: 'Review', project: 'Backend Team' },
+];
+
+function pageJson(page: (typeof PAGES)[number]) {
+  return {
+    object: 'page',
+    id: page.id,
+    url: `https://www.notion.so/${page.id}`,
+    parent: { type: 'database_id', database_id: page.db },
+    properties: {
+      Task: { type: 'title', title: richText(page.title) },
+      Stage: { type: 'status', status: { name: page.status } },
+      Repo: { type: 'rich_text', rich_text: richText(page.project) },
+    },
+  };
+}
+
+describe('Notion ticket sources', () => {
+  let server: StandInServer;
+  let baseUrl: string;
+  let requests: RecordedRequest[] = [];
+
+  beforeAll(async () => {
+    server = await startStandInServer((req, send) => {
+      const query = req.url.match(/^\/v1\/databases\/([^/]+)\/query/);
+      if (query) {
+        const status = (req.body.filter as { status: { equals: string } }).status.equals;
+        const results = PAGES.filter((p) => p.db === query[1] && p.status === status).map(pageJson);
+        return send(200, { object: 'list', results, has_more: false, next_cursor: null });
+      }
+      if (req.url.startsWith('/v1/blocks/p1/children')) {
+        // p1 has a body paragraph and a review section from an earlier review
+        const results = req.method === 'GET'
+          ? [makeBlock('paragraph', 'Login fails on Safari'), makeBlock('heading_2', '🤖 TicketToPR Review', {}, { id: 'old-review' })]
+          : [{ object: 'block', id: 'new-review', type: 'heading_2' }];
+        return send(200, { object: 'list', results, has_more: false, next_cursor: null });
+      }
+      if (req.url.startsWith('/v1/blocks/')) return send(200, { object: 'block', id: req.url.split('/')[3] });
+      const page = PAGES.find((p) => req.url === `/v1/pages/${p.id}`);
+      send(200, page ? pageJson(page) : { object: 'page', id: 'unknown', properties: {} });
+    });
+    requests = server.requests;
+    baseUrl = server.url;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('queries and moves tickets using the database names', async () => {
+    const source = createNotionSource({ token: 'secret', databaseId: 'db-1', schema: SCHEMA, baseUrl });
+
+    const tickets = await source.fetchTicketsByStatus('Review');
+    expect(tickets).toEqual([{ id: 'p1', title: 'Fix login', project: 'WebApp', status: 'Review' }]);
+    expect(requests[0].body.filter).toEqual({ property: 'Stage', status: { equals: 'Needs Review' } });
+
+    await source.moveTicketStatus('p1', 'PR Ready');
+    expect(requests[1].method).toBe('PATCH');
+    expect(requests[1].body.properties).toEqual({ Stage: { status: { name: 'In Code Review' } } });
+  });
+
+  it('watches several databases, each with its own mapping', async () => {
+    const databases = getNotionDatabases({
+      properties: { Status: 'Stage', Project: 'Repo', Name: 'Task' },
+      databases: [
+        { id: 'db-1', name: 'Web', columns: { Review: 'Needs Review' } },
+        { id: 'db-2', name: 'Backend', projects: { 'Backend Team': 'Api' } },
+      ],
+    });
+    const source = createNotionBoardSource(databases, { token: 'secret', baseUrl });
+
+    expect(await source.fetchTicketsByStatus('Review')).toEqual([
+      { id: 'p1', title: 'Fix login', project: 'WebApp', status: 'Review' },
+      { id: 'p2', title: 'Add export', project: 'Api', status: 'Review' },
+    ]);
+
+    await source.moveTicketStatus('p1', 'Review');
+    await source.moveTicketStatus('p2', 'Review');
+    const updates = requests.filter((r) => r.method === 'PATCH').map((r) => r.body.properties);
+    expect(updates).toEqual([
+      { Stage: { status: { name: 'Needs Review' } } },
+      { Stage: { status: { name: 'Review' } } },
+    ]);
+  });
+
+  it('finds the database of a page it has not listed', async () => {
+    const databases = getNotionDatabases({
+      properties: { Status: 'Stage', Project: 'Repo', Name: 'Task' },
+      databases: [{ id: 'db-1', columns: { Review: 'Needs Review' } }, { id: 'db-2' }],
+    });
+    const source = createNotionBoardSource(databases, { token: 'secret', baseUrl });
+
+    await source.moveTicketStatus('p1', 'Review');
+    expect(requests.map((r) => `${r.method} ${r.url}`)).toEqual(['GET /v1/pages/p1', 'PATCH /v1/pages/p1']);
+    expect(requests[1].body.properties).toEqual({ Stage: { status: { name: 'Needs Review' } } });
+  });
+
+  it('writes the PR number and node id with the execution results', async () => {
+    const source = createNotionSource({ token: 'secret', databaseId: 'db-1', schema: SCHEMA, baseUrl });
+
+    await source.writeExecutionResults('p1', { branch: 'notion/p1/fix', cost: 0.5, prUrl: 'https://github.com/acme/web/pull/12', prNumber: 12, prNodeId: 'PR_kw12' });
+    expect(requests[0].body.properties).toMatchObject({
+      'PR URL': { url: 'https://github.com/acme/web/pull/12' },
+      'PR Number': { number: 12 },
+      'PR Node ID': { rich_text: [{ text: { content: 'PR_kw12' } }] },
+    });
+  });
+
+    it('writes the review as a page section, replacing the earlier one', async () => {
+    const source = createNotionSource({ token: 'secret', databaseId: 'db-1', schema: { ...SCHEMA, reviewBlocks: true }, baseUrl });
+
+    await source.writeReviewResults('p1', {
+      easeScore: 8,
+      confidenceScore: 7,
+      spec: 'Fix the cookie check.\n\n- Keep the session',
+      impactReport: 'Touches auth only.',
+      affectedFiles: ['lib/auth.ts'],
+    });
+
+    expect(requests.map((r) => `${r.method} ${r.url.split('?')[0]}`)).toEqual([
+      'GET /v1/blocks/p1/children',
+      'DELETE /v1/blocks/old-review',
+      'PATCH /v1/blocks/p1/children',
+      'PATCH /v1/pages/p1',
+    ]);
+    const [section] = requests[2].body.children as Array<{ heading_2: { is_toggleable: boolean; children: unknown[] } }>;
+    expect(section.heading_2.is_toggleable).toBe(true);
+    expect(section.heading_2.children).toHaveLength(8);
+    const properties = requests[3].body.properties as Record<string, { rich_text?: Array<{ text: { content: string } }> }>;
+    expect(properties.Spec.rich_text?.[0].text.content).toBe('Fix the cookie check.');
+  });
+});
+
+describe('getNotionDatabases', () => {
+  it('merges shared mappings under each database', () => {
+    const [db] = getNotionDatabases({
+      properties: { Status: 'Stage', Project: 'Repo' },
+      columns: { Review: 'Triage' },
+      databases: [{ id: 'db-1', properties: { Project: 'Team' }, project: 'WebApp' }],
+    });
+    expect(db).toEqual({
+      id: 'db-1',
+      name: 'db-1',
+      schema: {
+        properties: { Status: 'Stage', Project: 'Team' },
+        columns: { Review: 'Triage' },
+        projects: undefined,
+        project: 'WebApp',
+      },
+    });
+  });
+
+  it('treats ids with and without dashes as the same database', () => {
+    expect(sameNotionId('0a1b-2c3d', '0A1B2C3D')).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { findPullRequestTemplate, renderPullRequestBody, type PullRequestBodyParts } from '../pr-body.js';
+
+const parts: PullRequestBodyParts = {
+  summary: 'Add a dark theme toggle.',
+  impact: 'Touches the settings page only.',
+  ticket: { heading: 'Notion Ticket', link: '[View in Notion](https://notion.so/abc)' },
+  footer: 'Cost: $1.20 | Review: Ease 8/10, Confidence 9/10',
+};
+
+describe('renderPullRequestBody', () => {
+  it('uses Summary / Impact / Ticket without a template', () => {
+    expect(renderPullRequestBody(parts)).toBe([
+      '## Summary',
+      '',
+      'Add a dark theme toggle.',
+      '',
+      '## Impact',
+      '',
+      'Touches the settings page only.',
+      '',
+      '## Notion Ticket',
+      '',
+      '[View in Notion](https://notion.so/abc)',
+      '',
+      '---',
+      'Cost: $1.20 | Review: Ease 8/10, Confidence 9/10',
+    ].join('\n'));
+  });
+
+  it('fills matching template sections and keeps the rest', () => {
+    const template = [
+      '## Description',
+      '<!-- What does this change? -->',
+      '',
+      '## Related issue',
+      '',
+      '## Checklist',
+      '- [ ] Tests added',
+    ].join('\n');
+
+    expect(renderPullRequestBody(parts, template)).toBe([
+      '## Description',
+      '',
+      'Add a dark theme toggle.',
+      '<!-- What does this change? -->',
+      '',
+      '## Related issue',
+      '',
+      '[View in Notion](https://notion.so/abc)',
+      '',
+      '## Checklist',
+      '- [ ] Tests added',
+      '',
+      '## Impact',
+      '',
+      'Touches the settings page only.',
+      '',
+      '---',
+      'Cost: $1.20 | Review: Ease 8/10, Confidence 9/10',
+    ].join('\n'));
+  });
+
+  it('adds validation results under a testing heading or at the end', () => {
+    const validation = '| Stage | Command | Result |';
+    expect(renderPullRequestBody({ ...parts, validation })).toContain(`## Validation\n\n${validation}\n\n---`);
+    expect(renderPullRequestBody({ ...parts, validation }, '## Summary\n\n## How was this tested?\n')).toContain(
+      `## How was this tested?\n\n${validation}`,
+    );
+  });
+
+  it('puts the summary first when no heading asks for it', () => {
+    const body = renderPullRequestBody(parts, '## Checklist\n- [ ] Docs updated\n');
+    expect(body.startsWith('## Summary\n\nAdd a dark theme toggle.\n\n## Checklist')).toBe(true);
+  });
+
+  it('leaves headings that only mention changes or links alone', () => {
+    const template = '## What type of PR is this?\n- [ ] Bug fix\n\n## Types of changes\n\n## Links\n';
+    const body = renderPullRequestBody(parts, template);
+    expect(body.startsWith('## Summary\n\nAdd a dark theme toggle.\n\n## What type of PR is this?\n- [ ] Bug fix\n\n## Types of changes\n\n## Links\n\n## Impact')).toBe(true);
+    expect(body).toContain('## Notion Ticket\n\n[View in Notion](https://notion.so/abc)');
+  });
+});
+
+describe('findPullRequestTemplate', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = join(tmpdir(), `pr-body-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(repoDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('reads the template from .github', () => {
+    mkdirSync(join(repoDir, '.github'));
+    writeFileSync(join(repoDir, '.github', 'pull_request_template.md'), '## Summary\n');
+    expect(findPullRequestTemplate(repoDir)).toBe('## Summary\n');
+  });
+
+  it('returns null when the repo has none', () => {
+    expect(findPullRequestTemplate(repoDir)).toBeNull();
+  });
+});
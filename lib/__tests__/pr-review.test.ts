@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { REPLY_MARKER, pendingReviewThreads, formatReviewThreads, formatReviewReply } from '../pr-review.js';
+import type { ReviewThread } from '../git-host.js';
+
+const thread = (id: string, ...bodies: string[]): ReviewThread => ({
+  id,
+  path: 'src/api.ts',
+  line: 12,
+  comments: bodies.map((body, i) => ({ author: i % 2 === 0 ? 'alice' : 'ticket-bot', body })),
+});
+
+describe('pendingReviewThreads', () => {
+  it('skips threads answered by TicketToPR', () => {
+    const threads = [
+      thread('1', 'Rename this'),
+      thread('2', 'Rename this', formatReviewReply('Done')),
+      thread('3', 'Rename this', formatReviewReply('Done'), 'Not quite — use fetchUsers'),
+    ];
+    expect(pendingReviewThreads(threads).map((t) => t.id)).toEqual(['1', '3']);
+  });
+});
+
+describe('formatReviewThreads', () => {
+  it('lists each thread under its id and location', () => {
+    const lines = formatReviewThreads([thread('42', 'Rename this', formatReviewReply('Done'), 'Use fetchUsers')]);
+    expect(lines.join('\n')).toBe([
+      '## Review Threads',
+      '',
+      '### Thread 42 — `src/api.ts:12`',
+      '',
+      '**alice**:',
+      'Rename this',
+      '',
+      '**ticket-bot**:',
+      'Done',
+      '',
+      '**alice**:',
+      'Use fetchUsers',
+    ].join('\n'));
+  });
+});
+
+describe('formatReviewReply', () => {
+  it('appends the commit and the marker', () => {
+    expect(formatReviewReply('Renamed. ', 'abc1234')).toBe(`Renamed.\n\n_Commit: abc1234_\n\n${REPLY_MARKER}`);
+  });
+});
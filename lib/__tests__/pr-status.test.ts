@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { prSyncAction } from '../pr-status.js';
+
+describe('prSyncAction', () => {
+  const merge = { mergedAt: '2026-03-01T10:00:00Z', mergedBy: 'octocat' };
+
+  it('moves merged PR Ready tickets to Testing', () => {
+    expect(prSyncAction('PR Ready', { state: 'merged', merge })).toEqual({ kind: 'merged', moveTo: 'Testing', merge });
+  });
+
+  it('only records the merge for tickets already in Testing', () => {
+    expect(prSyncAction('Testing', { state: 'merged', merge })).toEqual({ kind: 'merged', moveTo: undefined, merge });
+  });
+
+  it('sends closed PRs to Failed by default, or back to Execute', () => {
+    expect(prSyncAction('PR Ready', { state: 'closed' })).toEqual({ kind: 'closed', moveTo: 'Failed' });
+    expect(prSyncAction('Testing', { state: 'closed' }, 'execute')).toEqual({ kind: 'closed', moveTo: 'Execute' });
+  });
+
+  it('leaves open PRs alone', () => {
+    expect(prSyncAction('PR Ready', { state: 'open' })).toEqual({ kind: 'none' });
+  });
+});
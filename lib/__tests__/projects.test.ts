@@ -161,6 +161,73 @@ describe('projects module', () => {
     expect(getBuildCommand('App')).toBeUndefined();
   });
 
+  it('getValidationStages applies stage defaults', async () => {
+    writeFileSync(
+      projectsPath,
+      JSON.stringify({
+        projects: {
+          App: {
+            directory: '/app',
+            buildCommand: 'npm run build',
+            validate: [
+              { name: 'typecheck', command: 'npx tsc --noEmit' },
+              { name: 'lint', command: 'npm run lint', timeout: 300, required: false },
+            ],
+          },
+        },
+      }),
+    );
+
+    vi.doMock('node:fs', async (importOriginal) => {
+      const actual = await importOriginal<typeof import('node:fs')>();
+      return {
+        ...actual,
+        readFileSync: (path: string, encoding: string) => {
+          if (typeof path === 'string' && path.includes('projects.json')) {
+            return actual.readFileSync(projectsPath, encoding);
+          }
+          return actual.readFileSync(path, encoding);
+        },
+      };
+    });
+
+    const { getValidationStages, _resetCache } = await import('../projects.js');
+    _resetCache();
+
+    expect(getValidationStages('App')).toEqual([
+      { name: 'typecheck', command: 'npx tsc --noEmit', timeout: 120, required: true },
+      { name: 'lint', command: 'npm run lint', timeout: 300, required: false },
+    ]);
+  });
+
+  it('getValidationStages falls back to buildCommand', async () => {
+    writeFileSync(
+      projectsPath,
+      JSON.stringify({
+        projects: { App: { directory: '/app', buildCommand: 'npm run build' }, Bare: { directory: '/bare' } },
+      }),
+    );
+
+    vi.doMock('node:fs', async (importOriginal) => {
+      const actual = await importOriginal<typeof import('node:fs')>();
+      return {
+        ...actual,
+        readFileSync: (path: string, encoding: string) => {
+          if (typeof path === 'string' && path.includes('projects.json')) {
+            return actual.readFileSync(projectsPath, encoding);
+          }
+          return actual.readFileSync(path, encoding);
+        },
+      };
+    });
+
+    const { getValidationStages, _resetCache } = await import('../projects.js');
+    _resetCache();
+
+    expect(getValidationStages('App')).toEqual([{ name: 'build', command: 'npm run build', timeout: 120, required: true }]);
+    expect(getValidationStages('Bare')).toEqual([]);
+  });
+
   it('getDevAccess returns true when set', async () => {
     writeFileSync(
       projectsPath,
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { ReviewOutput, TicketSource } from '../../config.js';
+import { createLocalBoardSource } from '../local-board.js';
+import { saveReview, loadReview, withStoredReviews } from '../review-store.js';
+
+const REVIEW: ReviewOutput = {
+  easeScore: 8,
+  confidenceScore: 9,
+  spec: 'Add a theme toggle',
+  impactReport: 'Header only',
+  affectedFiles: ['src/header.tsx', 'src/theme/'],
+  risks: 'Flash of the wrong theme on load',
+  testCases: ['GIVEN dark mode WHEN toggled THEN colors change'],
+};
+
+describe('review store', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = join(tmpdir(), `review-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(tmpDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('round-trips the full review', () => {
+    saveReview('abc-123', REVIEW, tmpDir);
+    expect(loadReview('abc-123', tmpDir)).toEqual(REVIEW);
+    expect(loadReview('other', tmpDir)).toBeUndefined();
+  });
+
+  it('ignores unreadable files', () => {
+    writeFileSync(join(tmpDir, 'abc-123.json'), '{ not json');
+    expect(loadReview('abc-123', tmpDir)).toBeUndefined();
+  });
+
+  describe('withStoredReviews', () => {
+    let source: TicketSource;
+
+    beforeEach(() => {
+      const boardDir = join(tmpDir, 'board');
+      mkdirSync(join(boardDir, 'review'), { recursive: true });
+      writeFileSync(join(boardDir, 'review', 'dark-mode.md'), '---\ntitle: Add dark mode\nproject: WebApp\n---\n\nUsers want a dark theme.\n');
+      source = withStoredReviews(createLocalBoardSource(boardDir), join(tmpDir, 'reviews'));
+    });
+
+    it('attaches the stored review to ticket details', async () => {
+      expect((await source.fetchTicketDetails('dark-mode')).review).toBeUndefined();
+
+      await source.writeReviewResults('dark-mode', REVIEW);
+      const details = await source.fetchTicketDetails('dark-mode');
+      expect(details.review).toEqual(REVIEW);
+      expect(details.spec).toContain('Add a theme toggle');
+    });
+
+    it('keeps the rest of the source', async () => {
+      expect(source.name).toBe('Local board');
+      expect(await source.fetchTicketsByStatus('Review')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getTicketSource,
+  getTicketSourceName,
+  getMissingSourceEnv,
+  _resetTicketSource,
+} from '../tickets.js';
+
+describe('ticket source registry', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    _resetTicketSource();
+    delete process.env.TICKET_SOURCE;
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+    _resetTicketSource();
+  });
+
+  it('defaults to notion', () => {
+    expect(getTicketSourceName()).toBe('notion');
+    expect(getTicketSource().name).toBe('Notion');
+  });
+
+  it('normalizes the backend name', () => {
+    process.env.TICKET_SOURCE = 'Notion';
+    expect(getTicketSourceName()).toBe('notion');
+  });
+
+  it('throws for unknown backends', () => {
+    process.env.TICKET_SOURCE = 'jira';
+    expect(() => getTicketSource()).toThrow('Unknown TICKET_SOURCE "jira"');
+  });
+
+  it('reports missing env vars for the selected backend', () => {
+    delete process.env.NOTION_TOKEN;
+    process.env.NOTION_DATABASE_ID = 'db';
+    expect(getMissingSourceEnv()).toEqual(['NOTION_TOKEN']);
+  });
+
+  it('builds Notion ticket URLs without dashes', () => {
+    expect(getTicketSource().ticketUrl('abc-123-def')).toBe('https://www.notion.so/abc123def');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'node:os';
+import { runValidationStages, blockingFailure, formatValidationSummary, formatValidationTable, type StageResult } from '../validation.js';
+
+const stage = (name: string, command: string, required = true) => ({ name, command, timeout: 10, required });
+
+describe('runValidationStages', () => {
+  it('runs every stage in order', async () => {
+    const results = await runValidationStages([stage('build', 'echo built'), stage('test', 'echo tested')], tmpdir());
+    expect(results.map((r) => [r.name, r.status])).toEqual([['build', 'passed'], ['test', 'passed']]);
+    expect(blockingFailure(results)).toBeUndefined();
+  });
+
+  it('only warns when an advisory stage fails', async () => {
+    const results = await runValidationStages([stage('lint', 'echo "2 problems" && exit 1', false), stage('test', 'echo ok')], tmpdir());
+    expect(results.map((r) => r.status)).toEqual(['warned', 'passed']);
+    expect(results[0].output).toContain('2 problems');
+    expect(blockingFailure(results)).toBeUndefined();
+  });
+
+  it('skips the remaining stages after a required failure', async () => {
+    const results = await runValidationStages([stage('typecheck', 'exit 2'), stage('test', 'echo ok')], tmpdir());
+    expect(results.map((r) => r.status)).toEqual(['failed', 'skipped']);
+    expect(blockingFailure(results)?.name).toBe('typecheck');
+  });
+});
+
+const result = (name: string, status: StageResult['status'], required = true): StageResult => ({
+  name, command: `npm run ${name}`, required, status, durationMs: 12_300, output: '',
+});
+
+describe('formatValidationSummary', () => {
+  it('lists each stage with its result', () => {
+    expect(formatValidationSummary([result('build', 'passed'), result('lint', 'warned', false), result('test', 'skipped')])).toBe(
+      'Validation: build ✅ passed (12s) | lint ⚠️ failed (advisory) (12s) | test ⏭️ skipped',
+    );
+    expect(formatValidationSummary([])).toBe('Validation: N/A');
+  });
+});
+
+describe('formatValidationTable', () => {
+  it('renders a markdown table', () => {
+    expect(formatValidationTable([result('build', 'passed'), result('lint', 'warned', false)])).toBe([
+      '| Stage | Command | Result |',
+      '|-------|---------|--------|',
+      '| build | `npm run build` | ✅ passed |',
+      '| lint (advisory) | `npm run lint` | ⚠️ failed (advisory) |',
+    ].join('\n'));
+  });
+});
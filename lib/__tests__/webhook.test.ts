@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  signNotionPayload,
+  verifyNotionSignature,
+  parseNotionEvent,
+  startWebhookServer,
+  type NotionPageEvent,
+} from '../webhook.js';
+
+const SECRET = 'secret_test_token';
+
+function propertiesUpdated(pageId = 'page-1', databaseId = 'db-1') {
+  return {
+    id: 'evt-1',
+    type: 'page.properties_updated',
+    entity: { id: pageId, type: 'page' },
+    data: { parent: { id: databaseId, type: 'database' }, updated_properties: ['Status'] },
+  };
+}
+
+// -- Signature verification --
+
+describe('verifyNotionSignature', () => {
+  it('accepts a matching signature', () => {
+    const body = JSON.stringify(propertiesUpdated());
+    expect(verifyNotionSignature(body, signNotionPayload(body, SECRET), SECRET)).toBe(true);
+  });
+
+  it('rejects a tampered body', () => {
+    const body = JSON.stringify(propertiesUpdated());
+    expect(verifyNotionSignature(body + ' ', signNotionPayload(body, SECRET), SECRET)).toBe(false);
+  });
+
+  it('rejects missing signature or secret', () => {
+    expect(verifyNotionSignature('{}', undefined, SECRET)).toBe(false);
+    expect(verifyNotionSignature('{}', signNotionPayload('{}', SECRET), '')).toBe(false);
+  });
+});
+
+// -- Event parsing --
+
+describe('parseNotionEvent', () => {
+  it('extracts page and database ids', () => {
+    expect(parseNotionEvent(propertiesUpdated())).toEqual({
+      type: 'page.properties_updated',
+      pageId: 'page-1',
+      databaseId: 'db-1',
+    });
+  });
+
+  it('ignores non-page events', () => {
+    expect(parseNotionEvent({ type: 'comment.created', entity: { id: 'c', type: 'comment' } })).toBeNull();
+    expect(parseNotionEvent({ type: 'database.schema_updated', entity: { id: 'd', type: 'database' } })).toBeNull();
+  });
+
+  it('ignores malformed bodies', () => {
+    expect(parseNotionEvent(null)).toBeNull();
+    expect(parseNotionEvent({ type: 'page.created' })).toBeNull();
+  });
+});
+
+// -- Listener --
+
+describe('startWebhookServer', () => {
+  let server: Server | undefined;
+
+  afterEach(() => {
+    server?.close();
+    server = undefined;
+  });
+
+  async function start() {
+    const events: NotionPageEvent[] = [];
+    const tokens: string[] = [];
+    const rejected: string[] = [];
+    server = await startWebhookServer({
+      port: 0,
+      secret: SECRET,
+      onEvent: (e) => events.push(e),
+      onVerificationToken: (t) => tokens.push(t),
+      onRejected: (r) => rejected.push(r),
+    });
+    const { port } = server.address() as AddressInfo;
+    const post = (body: string, headers: Record<string, string> = {}, path = '/notion/webhook') =>
+      fetch(`http://127.0.0.1:${port}${path}`, { method: 'POST', body, headers: { 'Content-Type': 'application/json', ...headers } });
+    return { events, tokens, rejected, post };
+  }
+
+  it('dispatches signed events', async () => {
+    const { events, post } = await start();
+    const body = JSON.stringify(propertiesUpdated('page-9'));
+    const res = await post(body, { 'X-Notion-Signature': signNotionPayload(body, SECRET) });
+    expect(res.status).toBe(200);
+    expect(events.map((e) => e.pageId)).toEqual(['page-9']);
+  });
+
+  it('rejects unsigned events', async () => {
+    const { events, rejected, post } = await start();
+    const res = await post(JSON.stringify(propertiesUpdated()));
+    expect(res.status).toBe(401);
+    expect(events).toEqual([]);
+    expect(rejected).toEqual(['signature mismatch']);
+  });
+
+  it('surfaces the verification token handshake', async () => {
+    const { tokens, post } = await start();
+    const res = await post(JSON.stringify({ verification_token: 'secret_abc' }));
+    expect(res.status).toBe(200);
+    expect(tokens).toEqual(['secret_abc']);
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    const { events, rejected, post } = await start();
+    for (const body of ['null', '42', '[]']) {
+      expect((await post(body)).status).toBe(400);
+    }
+    expect(events).toEqual([]);
+    expect(rejected).toEqual(Array(3).fill('body is not a JSON object'));
+  });
+
+  it('answers 413 to bodies over the size limit in bytes', async () => {
+    const { events, rejected, post } = await start();
+    // 600k characters, 1.2 MB once encoded
+    const res = await post(JSON.stringify({ note: 'é'.repeat(600_000) }));
+    expect(res.status).toBe(413);
+    expect(events).toEqual([]);
+    expect(rejected).toEqual(['body too large']);
+  });
+
+  it('returns 404 for other paths', async () => {
+    const { post } = await start();
+    const res = await post('{}', {}, '/other');
+    expect(res.status).toBe(404);
+  });
+});
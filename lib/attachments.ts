@@ -0,0 +1,84 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import type { TicketAttachment } from '../config.js';
+import { requestBuffer } from './http.js';
+
+// -- Ticket attachments --
+//
+// Screenshots and files attached to a ticket are downloaded next to the
+// project (never into the worktree, so they can't be committed) and listed
+// in the agent prompt by local path.
+
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const MAX_ATTACHMENTS = 20;
+
+export interface DownloadedAttachment {
+  name: string;
+  path: string;
+}
+
+export interface AttachmentDownloads {
+  files: DownloadedAttachment[];
+  failed: Array<{ name: string; error: string }>;
+}
+
+/** Per-ticket download directory: <projectDir>/.ticket-to-pr/attachments/<ticketId>. */
+export function attachmentsDir(projectDir: string, ticketId: string): string {
+  return join(projectDir, '.ticket-to-pr', 'attachments', ticketId.replace(/[^a-zA-Z0-9_-]/g, '_'));
+}
+
+/** A filesystem-safe, unique-within-ticket file name. Keeps the extension so images are recognised. */
+export function attachmentFileName(name: string, index: number): string {
+  const ext = extname(name).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  const base = name.slice(0, name.length - extname(name).length)
+    .replace(/[^a-zA-Z0-9_-]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60) || 'attachment';
+  return `${String(index + 1).padStart(2, '0')}-${base}${ext}`;
+}
+
+/**
+ * Download attachments into `dir`, one at a time. A failed download is
+ * reported but doesn't stop the others — the agent can still work from
+ * the ticket text.
+ */
+export async function downloadAttachments(attachments: TicketAttachment[], dir: string): Promise<AttachmentDownloads> {
+  const result: AttachmentDownloads = { files: [], failed: [] };
+  if (attachments.length === 0) return result;
+
+  mkdirSync(dir, { recursive: true });
+  for (const [i, attachment] of attachments.slice(0, MAX_ATTACHMENTS).entries()) {
+    try {
+      const data = await requestBuffer(attachment.url, { maxBytes: MAX_ATTACHMENT_BYTES });
+      const path = join(dir, attachmentFileName(attachment.name, i));
+      writeFileSync(path, data);
+      result.files.push({ name: attachment.name, path });
+    } catch (e) {
+      result.failed.push({ name: attachment.name, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  for (const skipped of attachments.slice(MAX_ATTACHMENTS)) {
+    result.failed.push({ name: skipped.name, error: `more than ${MAX_ATTACHMENTS} attachments` });
+  }
+  return result;
+}
+
+/** Prompt section listing downloaded attachments, or nothing when there are none. */
+export function formatAttachmentsSection(files: DownloadedAttachment[]): string[] {
+  if (files.length === 0) return [];
+  return [
+    '',
+    '## Attachments',
+    'Files attached to the ticket (screenshots, mockups, documents). Use the Read tool on these paths — images are shown to you visually. Bug reports often describe the problem only in the screenshot.',
+    '',
+    ...files.map((f) => `- \`${f.path}\` — ${f.name}`),
+  ];
+}
+
+export function removeAttachments(dir: string): void {
+  try {
+    rmSync(dir, { recursive: true, force: true });
+  } catch {
+    // Best-effort: a leftover download is harmless and overwritten next run
+  }
+}
@@ -0,0 +1,42 @@
+import type { CheckRun } from './git-host.js';
+
+// -- CI watch --
+//
+// With `watchCI`, the execute run doesn't end when the PR is opened: it
+// waits for the PR's checks and, when one fails, hands the job log to a
+// repair agent on the same branch (bounded by CI_REPAIR_MAX_ATTEMPTS and the
+// ticket's budget).
+
+export type ChecksOutcome =
+  | { state: 'none' }
+  | { state: 'pending' }
+  | { state: 'success' }
+  | { state: 'failure'; failed: CheckRun[] };
+
+/** Overall result once every check has finished; pending while any is still running. */
+export function summarizeChecks(checks: CheckRun[]): ChecksOutcome {
+  if (checks.length === 0) return { state: 'none' };
+  if (checks.some((c) => c.state === 'pending')) return { state: 'pending' };
+  const failed = checks.filter((c) => c.state === 'failure');
+  return failed.length > 0 ? { state: 'failure', failed } : { state: 'success' };
+}
+
+const ANSI_ESCAPE = /\x1b\[[0-9;]*[A-Za-z]/g;
+// GitHub Actions prefixes every log line with an ISO timestamp
+const LINE_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z /gm;
+
+/** The end of a job log — where the failure is — without colors or timestamps. */
+export function tailLog(log: string, maxChars: number): string {
+  const clean = log.replace(ANSI_ESCAPE, '').replace(LINE_TIMESTAMP, '').replace(/\r/g, '').trim();
+  if (clean.length <= maxChars) return clean;
+  return `... (log truncated)\n${clean.slice(-maxChars)}`;
+}
+
+/** Prompt section with each failed check and the tail of its log. */
+export function formatFailedChecks(failures: Array<{ check: CheckRun; log: string }>): string[] {
+  const lines = ['## Failed Checks'];
+  for (const { check, log } of failures) {
+    lines.push('', `### ${check.name}${check.url ? ` (${check.url})` : ''}`, '', '```', log || '(no log available)', '```');
+  }
+  return lines;
+}
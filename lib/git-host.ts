@@ -0,0 +1,119 @@
+import type { PRMergeInfo } from '../config.js';
+import { getGitHostName, getRemote } from './projects.js';
+import { createGitHubHost } from './github.js';
+import { createGitLabHost } from './gitlab.js';
+
+// -- Git hosts --
+//
+// Where a project's pull requests live. Each project picks one with
+// `gitHost` in projects.json (default "github"); the orchestrator only
+// talks to this interface, so it doesn't care which one it got.
+
+export type PRState = 'open' | 'merged' | 'closed';
+
+export interface PRStatus {
+  state: PRState;
+  merge?: PRMergeInfo;
+  /** Branch the PR merges from. */
+  head?: string;
+}
+
+export interface ReviewComment {
+  author: string;
+  body: string;
+}
+
+/** An unresolved review discussion, oldest comment first. */
+export interface ReviewThread {
+  /** Host id used to reply to the thread. */
+  id: string;
+  /** File and line the thread is attached to; absent for general comments. */
+  path?: string;
+  line?: number;
+  comments: ReviewComment[];
+}
+
+export interface PullRequestInput {
+  title: string;
+  body: string;
+  /** Branch to merge into. */
+  base: string;
+  /** Branch with the changes (already pushed). */
+  head: string;
+  draft?: boolean;
+  reviewers?: string[];
+  /** Ignored by hosts without team reviews (GitLab). */
+  teamReviewers?: string[];
+  labels?: string[];
+  assignees?: string[];
+}
+
+export interface PullRequest {
+  url: string;
+  number: number;
+  /** GraphQL node id, where the host has one (GitHub). */
+  nodeId?: string;
+  /** Reviewers, labels or assignees the host wouldn't apply — the PR itself was created. */
+  warnings?: string[];
+}
+
+export type CheckState = 'pending' | 'success' | 'failure';
+
+/** A CI check (GitHub check run, GitLab pipeline job) on a commit. */
+export interface CheckRun {
+  id: string;
+  name: string;
+  state: CheckState;
+  /** Browser URL of the check. */
+  url?: string;
+}
+
+export interface GitHost {
+  /** Display name for logs (e.g. "GitHub"). */
+  readonly name: string;
+  /** Open a pull request for a branch of the repo checked out at `repoDir`. */
+  createPullRequest(repoDir: string, input: PullRequestInput): Promise<PullRequest>;
+  updatePullRequest(prUrl: string, changes: { title?: string; body?: string }): Promise<void>;
+  fetchPullRequestStatus(prUrl: string): Promise<PRStatus>;
+  commentOnPullRequest(prUrl: string, body: string): Promise<void>;
+  /** Review threads that are not resolved yet. */
+  fetchReviewThreads(prUrl: string): Promise<ReviewThread[]>;
+  replyToReviewThread(prUrl: string, threadId: string, body: string): Promise<void>;
+  /** CI checks that ran (or are running) on commit `sha` of the PR. */
+  fetchChecks(prUrl: string, sha: string): Promise<CheckRun[]>;
+  /** Output of a failed check — the job log where the host has one. */
+  fetchCheckLog(prUrl: string, checkId: string): Promise<string>;
+}
+
+export interface GitHostOptions {
+  /** Git remote branches are pushed to (default "origin"). */
+  remote: string;
+}
+
+const HOSTS: Record<string, (options: GitHostOptions) => GitHost> = {
+  github: (options) => createGitHubHost({ remote: options.remote }),
+  gitlab: (options) => createGitLabHost({ remote: options.remote }),
+};
+
+export function getGitHostNames(): string[] {
+  return Object.keys(HOSTS);
+}
+
+const hosts = new Map<string, GitHost>();
+
+/**
+ * The git host for a project, from its `gitHost` and `remote` settings.
+ * Throws for unknown host names.
+ */
+export function getGitHost(project: string): GitHost {
+  const cached = hosts.get(project);
+  if (cached) return cached;
+  const name = getGitHostName(project);
+  const factory = HOSTS[name];
+  if (!factory) {
+    throw new Error(`Unknown gitHost "${name}" for project "${project}". Available: ${getGitHostNames().join(', ')}`);
+  }
+  const host = factory({ remote: getRemote(project) });
+  hosts.set(project, host);
+  return host;
+}
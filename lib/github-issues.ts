@@ -0,0 +1,236 @@
+import {
+  CONFIG,
+  type Ticket,
+  type TicketDetails,
+  type TicketComment,
+  type TicketSource,
+  type ReviewOutput,
+  type ExecutionResults,
+} from '../config.js';
+import { requestJson } from './http.js';
+import {
+  columnSlug,
+  isBotComment,
+  tagComment,
+  formatReviewComment,
+  formatFailureComment,
+  formatPullRequestLine,
+  parseReviewComments,
+} from './ticket-format.js';
+
+// GitHub Issues as a board: one `ttp:<column>` label per pipeline column
+// (ttp:review, ttp:execute, ttp:pr-ready, ...) and a `project:<name>` label
+// naming the projects.json entry.
+
+const STATUS_LABEL_PREFIX = 'ttp:';
+const PROJECT_LABEL_PREFIX = 'project:';
+
+// Columns a merged PR's "Closes #N" can reach with the issue already closed.
+// Every other column only lists open issues, so a closed one is never picked up.
+const CLOSED_ISSUE_COLUMNS: readonly string[] = [CONFIG.COLUMNS.PR_READY, CONFIG.COLUMNS.TESTING, CONFIG.COLUMNS.DONE];
+
+interface GitHubLabel {
+  name: string;
+}
+
+interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  labels: Array<GitHubLabel | string>;
+  pull_request?: unknown;
+}
+
+interface GitHubComment {
+  body?: string;
+  user?: { login?: string } | null;
+  created_at: string;
+}
+
+export interface GitHubIssuesOptions {
+  token: string;
+  /** "owner/repo" */
+  repo: string;
+  /** REST base URL — override for GitHub Enterprise or a local stand-in server. */
+  apiUrl?: string;
+  /** Project used when an issue has no project: label. */
+  defaultProject?: string;
+}
+
+export function statusLabel(column: string): string {
+  return STATUS_LABEL_PREFIX + columnSlug(column);
+}
+
+function labelNames(issue: GitHubIssue): string[] {
+  return issue.labels.map((l) => (typeof l === 'string' ? l : l.name));
+}
+
+/** Map an issue's ttp: label back to its CONFIG.COLUMNS name. */
+export function statusFromLabels(labels: string[]): string {
+  for (const column of Object.values(CONFIG.COLUMNS)) {
+    if (labels.includes(statusLabel(column))) return column;
+  }
+  return '';
+}
+
+export function projectFromLabels(labels: string[], defaultProject = ''): string {
+  const label = labels.find((l) => l.startsWith(PROJECT_LABEL_PREFIX));
+  return label ? label.slice(PROJECT_LABEL_PREFIX.length) : defaultProject;
+}
+
+/** Browser URL for an API base ("https://api.github.com" → "https://github.com"). */
+function webUrl(apiUrl: string): string {
+  if (/^https:\/\/api\.github\.com\/?$/.test(apiUrl)) return 'https://github.com';
+  return apiUrl.replace(/\/api\/v3\/?$/, '').replace(/\/$/, '');
+}
+
+export function createGitHubIssuesSource(options?: GitHubIssuesOptions): TicketSource {
+  const opts = options ?? {
+    token: process.env.GITHUB_TOKEN ?? '',
+    repo: process.env.GITHUB_ISSUES_REPO ?? '',
+    apiUrl: process.env.GITHUB_API_URL,
+    defaultProject: process.env.GITHUB_ISSUES_PROJECT,
+  };
+  const apiUrl = (opts.apiUrl || 'https://api.github.com').replace(/\/$/, '');
+  const repoUrl = `${apiUrl}/repos/${opts.repo}`;
+
+  function api<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+    return requestJson<T>(`${repoUrl}${path}`, {
+      method,
+      body,
+      headers: {
+        Authorization: `Bearer ${opts.token}`,
+        Accept: 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    });
+  }
+
+  /** Follow page-number pagination until a short page comes back. */
+  async function listAll<T>(path: string): Promise<T[]> {
+    const results: T[] = [];
+    const sep = path.includes('?') ? '&' : '?';
+    for (let page = 1; ; page++) {
+      const batch = await api<T[]>(`${path}${sep}per_page=100&page=${page}`);
+      results.push(...batch);
+      if (batch.length < 100) return results;
+    }
+  }
+
+  function issueToTicket(issue: GitHubIssue): Ticket {
+    const labels = labelNames(issue);
+    return {
+      id: String(issue.number),
+      title: issue.title,
+      project: projectFromLabels(labels, opts.defaultProject),
+      status: statusFromLabels(labels),
+    };
+  }
+
+  function listComments(issueNumber: string): Promise<GitHubComment[]> {
+    return listAll<GitHubComment>(`/issues/${issueNumber}/comments`);
+  }
+
+  async function postComment(issueNumber: string, body: string): Promise<void> {
+    await api(`/issues/${issueNumber}/comments`, 'POST', { body });
+  }
+
+  async function moveTicketStatus(issueNumber: string, newStatus: string): Promise<void> {
+    const issue = await api<GitHubIssue>(`/issues/${issueNumber}`);
+    const labels = labelNames(issue).filter((l) => !l.startsWith(STATUS_LABEL_PREFIX));
+    labels.push(statusLabel(newStatus));
+    await api(`/issues/${issueNumber}/labels`, 'PUT', { labels });
+  }
+
+  async function hasBotMarker(issueNumber: string, marker: string): Promise<boolean> {
+    try {
+      const comments = await listComments(issueNumber);
+      return comments.some((c) => c.body && isBotComment(c.body) && c.body.includes(marker));
+    } catch {
+      return false;
+    }
+  }
+
+  async function addComment(issueNumber: string, text: string): Promise<void> {
+    try {
+      await postComment(issueNumber, tagComment(text));
+    } catch (e) {
+      // Best-effort: log but don't throw
+      console.warn(`[GITHUB] Failed to add comment to #${issueNumber}:`, e);
+    }
+  }
+
+  return {
+    name: 'GitHub Issues',
+
+    async fetchTicketsByStatus(status: string): Promise<Ticket[]> {
+      const state = CLOSED_ISSUE_COLUMNS.includes(status) ? 'all' : 'open';
+      const issues = await listAll<GitHubIssue>(`/issues?state=${state}&labels=${encodeURIComponent(statusLabel(status))}`);
+      return issues.filter((i) => !i.pull_request).map(issueToTicket);
+    },
+
+    async fetchTicketDetails(issueNumber: string): Promise<TicketDetails> {
+      const [issue, comments] = await Promise.all([
+        api<GitHubIssue>(`/issues/${issueNumber}`),
+        listComments(issueNumber),
+      ]);
+      const review = parseReviewComments(
+        comments.map((c) => c.body ?? '').filter(isBotComment),
+      );
+      return {
+        ...issueToTicket(issue),
+        description: issue.body ?? '',
+        bodyBlocks: '',
+        ...review,
+      };
+    },
+
+    async writeReviewResults(issueNumber: string, results: ReviewOutput): Promise<void> {
+      await postComment(issueNumber, formatReviewComment(results));
+    },
+
+    async writeExecutionResults(issueNumber: string, results: ExecutionResults): Promise<void> {
+      await postComment(issueNumber, tagComment([
+        formatPullRequestLine(results.prUrl),
+        `Branch: \`${results.branch}\``,
+        `Cost: $${(Math.round(results.cost * 100) / 100).toFixed(2)}`,
+      ].join('\n')));
+    },
+
+    moveTicketStatus,
+
+    async writeFailure(issueNumber: string, error: string): Promise<void> {
+      await postComment(issueNumber, formatFailureComment(error));
+      await moveTicketStatus(issueNumber, CONFIG.COLUMNS.FAILED);
+    },
+
+    addComment,
+
+    async fetchComments(issueNumber: string): Promise<TicketComment[]> {
+      try {
+        const comments = await listComments(issueNumber);
+        return comments
+          .filter((c) => c.body?.trim() && !isBotComment(c.body))
+          .map((c) => ({
+            author: c.user?.login || 'Unknown',
+            text: c.body!.trim(),
+            createdTime: c.created_at,
+          }));
+      } catch (e) {
+        console.warn(`[GITHUB] Failed to fetch comments for #${issueNumber}:`, e);
+        return [];
+      }
+    },
+
+    hasFeedbackMarker: (issueNumber) => hasBotMarker(issueNumber, 'Feedback processed'),
+    hasTestingMarker: (issueNumber) => hasBotMarker(issueNumber, 'Ready for Testing'),
+
+    // Issues have no date fields — the audit comments already carry timestamps
+    trySetDate: async () => {},
+    // The merge is recorded by the orchestrator's "🔀 PR Merged" comment
+    writePRMerge: async () => {},
+
+    ticketUrl: (issueNumber) => `${webUrl(apiUrl)}/${opts.repo}/issues/${issueNumber}`,
+  };
+}
@@ -0,0 +1,323 @@
+import { execSync } from 'node:child_process';
+import { requestJson, requestBuffer, HttpError } from './http.js';
+import { parseRemoteUrl, shellEscape } from './utils.js';
+import type { GitHost, PRStatus, PullRequest, PullRequestInput, ReviewThread, CheckRun } from './git-host.js';
+
+// -- GitHub pull requests, through the REST API --
+//
+// Authenticates with GITHUB_TOKEN (a fine-grained token with Pull requests:
+// write, or a classic token with `repo`). Machines that only have the gh CLI
+// logged in fall back to its token, so no separate setup is needed there.
+
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  node_id: string;
+  state: 'open' | 'closed';
+  merged?: boolean;
+  merged_at?: string | null;
+  merged_by?: { login?: string } | null;
+  head?: { ref: string };
+}
+
+interface GitHubReviewThread {
+  isResolved: boolean;
+  path?: string | null;
+  line?: number | null;
+  comments: { nodes: Array<{ databaseId: number; body: string; author?: { login: string } | null }> };
+}
+
+interface GitHubCheckRun {
+  id: number;
+  name: string;
+  status: 'queued' | 'in_progress' | 'completed' | 'waiting' | 'requested' | 'pending';
+  conclusion?: string | null;
+  html_url?: string;
+  output?: { title?: string | null; summary?: string | null; text?: string | null };
+}
+
+/** A commit status — how CI services without a GitHub App (Jenkins, older integrations) report. */
+interface GitHubCommitStatus {
+  id: number;
+  context: string;
+  state: 'error' | 'failure' | 'pending' | 'success';
+  target_url?: string | null;
+  description?: string | null;
+}
+
+const PAGE_SIZE = 100;
+
+// Thread resolution is only exposed through GraphQL
+const REVIEW_THREADS_QUERY = `query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100) {
+        nodes {
+          isResolved
+          path
+          line
+          comments(first: 50) { nodes { databaseId body author { login } } }
+        }
+      }
+    }
+  }
+}`;
+
+export interface GitHubOptions {
+  token?: string;
+  /** REST base URL — override for GitHub Enterprise ("https://host/api/v3") or a local stand-in server. */
+  apiUrl?: string;
+  /** Git remote the branches are pushed to. */
+  remote?: string;
+}
+
+export interface PullRequestRef {
+  /** "owner/repo" */
+  repo: string;
+  number: number;
+}
+
+/** Split a pull request URL into repo and number (".../acme/web/pull/42"). */
+export function parsePullRequestUrl(url: string): PullRequestRef | null {
+  const match = url.match(/^https?:\/\/[^/]+\/([^/]+\/[^/]+)\/pull\/(\d+)/);
+  return match ? { repo: match[1], number: Number(match[2]) } : null;
+}
+
+export function pullRequestStatus(pr: GitHubPullRequest): PRStatus {
+  const head = pr.head?.ref;
+  if (pr.merged || pr.merged_at) {
+    return {
+      state: 'merged',
+      merge: { mergedAt: pr.merged_at || new Date().toISOString(), mergedBy: pr.merged_by?.login || undefined },
+      head,
+    };
+  }
+  return { state: pr.state === 'closed' ? 'closed' : 'open', head };
+}
+
+/** Neutral and skipped runs don't block a merge, so they count as passing. */
+export function checkRunState(run: GitHubCheckRun): CheckRun['state'] {
+  if (run.status !== 'completed') return 'pending';
+  return ['success', 'neutral', 'skipped'].includes(run.conclusion ?? '') ? 'success' : 'failure';
+}
+
+/** Commit statuses have no separate conclusion: "error" is a failure too. */
+export function commitStatusState(status: GitHubCommitStatus): CheckRun['state'] {
+  if (status.state === 'pending') return 'pending';
+  return status.state === 'success' ? 'success' : 'failure';
+}
+
+// Commit statuses have no endpoint of their own, so their check id carries the commit
+const STATUS_ID = /^status:([0-9a-f]+):(\d+)$/;
+
+/** Unresolved threads from a GraphQL reviewThreads page. Replies go to the thread's first comment. */
+export function unresolvedReviewThreads(threads: GitHubReviewThread[]): ReviewThread[] {
+  return threads
+    .filter((t) => !t.isResolved && t.comments.nodes.length > 0)
+    .map((t) => ({
+      id: String(t.comments.nodes[0].databaseId),
+      path: t.path ?? undefined,
+      line: t.line ?? undefined,
+      comments: t.comments.nodes.map((c) => ({ author: c.author?.login ?? 'ghost', body: c.body })),
+    }));
+}
+
+/** GITHUB_TOKEN, or the token of a logged-in gh CLI. Empty when neither is available. */
+export function resolveGitHubToken(): string {
+  if (process.env.GITHUB_TOKEN) return process.env.GITHUB_TOKEN;
+  try {
+    return execSync('gh auth token', { stdio: 'pipe', timeout: 10_000 }).toString().trim();
+  } catch {
+    return '';
+  }
+}
+
+export function createGitHubHost(options: GitHubOptions = {}): GitHost {
+  const apiUrl = (options.apiUrl || process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/$/, '');
+  // GitHub Enterprise serves GraphQL at /api/graphql next to /api/v3
+  const graphqlUrl = apiUrl.endsWith('/api/v3') ? apiUrl.replace(/\/v3$/, '/graphql') : `${apiUrl}/graphql`;
+  const remote = options.remote ?? 'origin';
+  let token = options.token;
+
+  function api<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+    return request<T>(`${apiUrl}${path}`, method, body);
+  }
+
+  /** Every item of a paged list endpoint that reports `total_count`. */
+  async function allPages<R extends { total_count?: number }, T>(path: string, items: (res: R) => T[]): Promise<T[]> {
+    const all: T[] = [];
+    for (let page = 1; ; page++) {
+      const res = await api<R>(`${path}${path.includes('?') ? '&' : '?'}per_page=${PAGE_SIZE}&page=${page}`);
+      const batch = items(res);
+      all.push(...batch);
+      if (batch.length < PAGE_SIZE || all.length >= (res.total_count ?? 0)) return all;
+    }
+  }
+
+  function commitStatuses(repo: string, sha: string): Promise<GitHubCommitStatus[]> {
+    // The combined status keeps only the latest status per context
+    return allPages(`/repos/${repo}/commits/${sha}/status`, (res: { total_count?: number; statuses: GitHubCommitStatus[] }) => res.statuses);
+  }
+
+  async function graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const res = await request<{ data?: T; errors?: Array<{ message: string }> }>(graphqlUrl, 'POST', { query, variables });
+    if (res.errors?.length || !res.data) {
+      throw new Error(`GitHub GraphQL error: ${res.errors?.map((e) => e.message).join('; ') ?? 'no data'}`);
+    }
+    return res.data;
+  }
+
+  function request<T>(url: string, method: string, body?: unknown): Promise<T> {
+    return requestJson<T>(url, { method, body, headers: authHeaders() });
+  }
+
+  function authHeaders(): Record<string, string> {
+    token ??= resolveGitHubToken();
+    if (!token) {
+      throw new Error('No GitHub token: set GITHUB_TOKEN in .env.local (or log in with `gh auth login`)');
+    }
+    return {
+      Authorization: `Bearer ${token}`,
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    };
+  }
+
+  function pullRequest(prUrl: string): PullRequestRef {
+    const ref = parsePullRequestUrl(prUrl);
+    if (!ref) throw new Error(`Not a GitHub pull request URL: ${prUrl}`);
+    return ref;
+  }
+
+  /** "owner/repo" of the remote the branch was pushed to. */
+  function remoteRepo(repoDir: string): string {
+    const remoteUrl = execSync(`git remote get-url ${shellEscape(remote)}`, { cwd: repoDir, stdio: 'pipe' }).toString().trim();
+    const parsed = parseRemoteUrl(remoteUrl);
+    if (!parsed || parsed.path.split('/').length !== 2) {
+      throw new Error(`Remote "${remote}" is not a GitHub repository URL: ${remoteUrl}`);
+    }
+    return parsed.path;
+  }
+
+  /**
+   * Reviewers, labels and assignees have their own endpoints, so they're added
+   * once the PR exists. Each is best-effort (GitHub rejects e.g. a review
+   * request for the PR's author); failures come back as warnings.
+   */
+  async function addMetadata(repo: string, number: number, input: PullRequestInput): Promise<string[]> {
+    const warnings: string[] = [];
+    const attempt = async (what: string, request: () => Promise<unknown>) => {
+      try {
+        await request();
+      } catch (e) {
+        warnings.push(`Could not add ${what}: ${e instanceof Error ? e.message : e}`);
+      }
+    };
+    if (input.reviewers?.length || input.teamReviewers?.length) {
+      await attempt('reviewers', () => api(`/repos/${repo}/pulls/${number}/requested_reviewers`, 'POST', {
+        reviewers: input.reviewers ?? [],
+        team_reviewers: input.teamReviewers ?? [],
+      }));
+    }
+    if (input.labels?.length) {
+      await attempt('labels', () => api(`/repos/${repo}/issues/${number}/labels`, 'POST', { labels: input.labels }));
+    }
+    if (input.assignees?.length) {
+      await attempt('assignees', () => api(`/repos/${repo}/issues/${number}/assignees`, 'POST', { assignees: input.assignees }));
+    }
+    return warnings;
+  }
+
+  return {
+    name: 'GitHub',
+
+    async createPullRequest(repoDir, input): Promise<PullRequest> {
+      const repo = remoteRepo(repoDir);
+      let pr: GitHubPullRequest;
+      try {
+        pr = await api<GitHubPullRequest>(`/repos/${repo}/pulls`, 'POST', {
+          title: input.title,
+          body: input.body,
+          base: input.base,
+          head: input.head,
+          draft: input.draft ?? false,
+        });
+      } catch (e) {
+        // A retried ticket pushes to the same branch — reuse its open PR
+        if (!(e instanceof HttpError && e.status === 422 && e.body.includes('already exists'))) throw e;
+        const owner = repo.split('/')[0];
+        const [existing] = await api<GitHubPullRequest[]>(`/repos/${repo}/pulls?state=open&head=${encodeURIComponent(`${owner}:${input.head}`)}`);
+        if (!existing) throw e;
+        pr = await api<GitHubPullRequest>(`/repos/${repo}/pulls/${existing.number}`, 'PATCH', { title: input.title, body: input.body });
+      }
+      const warnings = await addMetadata(repo, pr.number, input);
+      return { url: pr.html_url, number: pr.number, nodeId: pr.node_id, ...(warnings.length > 0 && { warnings }) };
+    },
+
+    async updatePullRequest(prUrl, changes): Promise<void> {
+      const { repo, number } = pullRequest(prUrl);
+      await api(`/repos/${repo}/pulls/${number}`, 'PATCH', changes);
+    },
+
+    async fetchPullRequestStatus(prUrl): Promise<PRStatus> {
+      const { repo, number } = pullRequest(prUrl);
+      return pullRequestStatus(await api<GitHubPullRequest>(`/repos/${repo}/pulls/${number}`));
+    },
+
+    async commentOnPullRequest(prUrl, body): Promise<void> {
+      const { repo, number } = pullRequest(prUrl);
+      // PR conversation comments go through the issues API
+      await api(`/repos/${repo}/issues/${number}/comments`, 'POST', { body });
+    },
+
+    async fetchReviewThreads(prUrl): Promise<ReviewThread[]> {
+      const { repo, number } = pullRequest(prUrl);
+      const [owner, name] = repo.split('/');
+      const data = await graphql<{ repository: { pullRequest: { reviewThreads: { nodes: GitHubReviewThread[] } } } }>(
+        REVIEW_THREADS_QUERY,
+        { owner, name, number },
+      );
+      return unresolvedReviewThreads(data.repository.pullRequest.reviewThreads.nodes);
+    },
+
+    async replyToReviewThread(prUrl, threadId, body): Promise<void> {
+      const { repo, number } = pullRequest(prUrl);
+      await api(`/repos/${repo}/pulls/${number}/comments/${threadId}/replies`, 'POST', { body });
+    },
+
+    async fetchChecks(prUrl, sha): Promise<CheckRun[]> {
+      const { repo } = pullRequest(prUrl);
+      const runs = await allPages(`/repos/${repo}/commits/${sha}/check-runs`, (res: { total_count?: number; check_runs: GitHubCheckRun[] }) => res.check_runs);
+      const statuses = await commitStatuses(repo, sha);
+      return [
+        ...runs.map((run) => ({ id: String(run.id), name: run.name, state: checkRunState(run), url: run.html_url })),
+        ...statuses.map((status) => ({
+          id: `status:${sha}:${status.id}`,
+          name: status.context,
+          state: commitStatusState(status),
+          url: status.target_url ?? undefined,
+        })),
+      ];
+    },
+
+    async fetchCheckLog(prUrl, checkId): Promise<string> {
+      const { repo } = pullRequest(prUrl);
+      const statusId = checkId.match(STATUS_ID);
+      if (statusId) {
+        // A commit status is just a line of text and a link to the CI service
+        const status = (await commitStatuses(repo, statusId[1])).find((s) => String(s.id) === statusId[2]);
+        return [status?.description, status?.target_url].filter(Boolean).join('\n\n');
+      }
+      try {
+        // GitHub Actions check runs share their id with the job; the log endpoint redirects to the file
+        const log = await requestBuffer(`${apiUrl}/repos/${repo}/actions/jobs/${checkId}/logs`, { headers: authHeaders(), maxBytes: 20 * 1024 * 1024 });
+        return log.toString('utf-8');
+      } catch (e) {
+        // Other CI apps have no Actions job and only publish the check run output
+        if (!(e instanceof HttpError && e.status === 404)) throw e;
+        const run = await api<GitHubCheckRun>(`/repos/${repo}/check-runs/${checkId}`);
+        return [run.output?.title, run.output?.summary, run.output?.text].filter(Boolean).join('\n\n');
+      }
+    },
+  };
+}
@@ -0,0 +1,252 @@
+import { execSync } from 'node:child_process';
+import { requestJson, requestBuffer, HttpError } from './http.js';
+import { shellEscape, parseRemoteUrl } from './utils.js';
+import type { GitHost, PRStatus, PullRequest, PullRequestInput, ReviewThread, CheckRun } from './git-host.js';
+
+// -- GitLab merge requests, through the REST API --
+//
+// Works with gitlab.com and self-hosted instances. The instance is taken
+// from the project's remote URL; GITLAB_URL overrides it when the API lives
+// somewhere else (a path prefix, or an SSH host that differs from the web host).
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  merged_at?: string | null;
+  merge_user?: { username?: string } | null;
+  merged_by?: { username?: string } | null;
+  source_branch?: string;
+}
+
+// Largest per_page the REST API allows
+const PAGE_SIZE = 100;
+
+interface GitLabJob {
+  id: number;
+  name: string;
+  status: string;
+  allow_failure?: boolean;
+  web_url?: string;
+}
+
+interface GitLabDiscussion {
+  id: string;
+  notes: Array<{
+    body: string;
+    system?: boolean;
+    resolvable?: boolean;
+    resolved?: boolean;
+    author?: { username: string };
+    position?: { new_path?: string; new_line?: number | null } | null;
+  }>;
+}
+
+export interface GitLabOptions {
+  /** Personal or project access token with `api` scope. */
+  token?: string;
+  /** Instance URL (e.g. "https://gitlab.example.com"). Defaults to the remote's host. */
+  url?: string;
+  /** Git remote the branches are pushed to. */
+  remote?: string;
+}
+
+export interface MergeRequestRef {
+  /** Instance URL, no trailing slash. */
+  baseUrl: string;
+  /** Project path (e.g. "group/subgroup/service"). */
+  project: string;
+  iid: number;
+}
+
+/** Split a merge request URL into instance, project path and MR number. */
+export function parseMergeRequestUrl(url: string, baseUrl?: string): MergeRequestRef | null {
+  const match = url.match(/^(https?:\/\/[^/]+)\/(.+?)\/-\/merge_requests\/(\d+)/);
+  if (!match) return null;
+  const base = baseUrl?.replace(/\/$/, '');
+  if (base && url.startsWith(`${base}/`)) {
+    const project = url.slice(base.length + 1).replace(/\/-\/merge_requests\/.*$/, '');
+    return { baseUrl: base, project, iid: Number(match[3]) };
+  }
+  return { baseUrl: match[1], project: match[2], iid: Number(match[3]) };
+}
+
+/** Convert an API merge request to a PR status. `locked` is a transient state of an open MR. */
+export function mergeRequestStatus(mr: GitLabMergeRequest): PRStatus {
+  const head = mr.source_branch;
+  if (mr.state === 'merged') {
+    return {
+      state: 'merged',
+      merge: {
+        mergedAt: mr.merged_at || new Date().toISOString(),
+        mergedBy: mr.merge_user?.username || mr.merged_by?.username || undefined,
+      },
+      head,
+    };
+  }
+  return { state: mr.state === 'closed' ? 'closed' : 'open', head };
+}
+
+/** Jobs allowed to fail, and manual or skipped jobs, don't block the pipeline. */
+export function jobState(job: GitLabJob): CheckRun['state'] {
+  if (['success', 'skipped', 'manual'].includes(job.status)) return 'success';
+  if (job.status === 'failed' || job.status === 'canceled') return job.allow_failure ? 'success' : 'failure';
+  return 'pending';
+}
+
+/** Discussions with a resolvable note still open. System notes ("added 1 commit") are dropped. */
+export function unresolvedDiscussions(discussions: GitLabDiscussion[]): ReviewThread[] {
+  return discussions
+    .filter((d) => d.notes.some((n) => n.resolvable && !n.resolved))
+    .map((d) => {
+      const notes = d.notes.filter((n) => !n.system);
+      const position = d.notes[0].position;
+      return {
+        id: d.id,
+        path: position?.new_path ?? undefined,
+        line: position?.new_line ?? undefined,
+        comments: notes.map((n) => ({ author: n.author?.username ?? 'unknown', body: n.body })),
+      };
+    });
+}
+
+export function createGitLabHost(options: GitLabOptions = {}): GitHost {
+  const token = options.token ?? process.env.GITLAB_TOKEN ?? '';
+  const configuredUrl = (options.url ?? process.env.GITLAB_URL)?.replace(/\/$/, '');
+  const remote = options.remote ?? 'origin';
+  // Public projects can be read without a token, so the header is only sent with one
+  const authHeaders: Record<string, string> = token ? { 'PRIVATE-TOKEN': token } : {};
+
+  function api<T>(baseUrl: string, project: string, path: string, method = 'GET', body?: unknown): Promise<T> {
+    return requestJson<T>(`${baseUrl}/api/v4/projects/${encodeURIComponent(project)}${path}`, {
+      method,
+      body,
+      headers: authHeaders,
+    });
+  }
+
+  /** GET every page of a list endpoint — a page short of PAGE_SIZE is the last one. */
+  async function allPages<T>(baseUrl: string, project: string, path: string): Promise<T[]> {
+    const all: T[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await api<T[]>(baseUrl, project, `${path}${path.includes('?') ? '&' : '?'}per_page=${PAGE_SIZE}&page=${page}`);
+      all.push(...batch);
+      if (batch.length < PAGE_SIZE) return all;
+    }
+  }
+
+  function mergeRequest(prUrl: string): MergeRequestRef {
+    const ref = parseMergeRequestUrl(prUrl, configuredUrl);
+    if (!ref) throw new Error(`Not a GitLab merge request URL: ${prUrl}`);
+    return ref;
+  }
+
+  /** Instance and project path for the repo checked out at `repoDir`. */
+  function remoteProject(repoDir: string): { baseUrl: string; project: string } {
+    const remoteUrl = execSync(`git remote get-url ${shellEscape(remote)}`, { cwd: repoDir, stdio: 'pipe' }).toString().trim();
+    const parsed = parseRemoteUrl(remoteUrl);
+    if (!parsed) throw new Error(`Cannot parse the URL of remote "${remote}": ${remoteUrl}`);
+    const baseUrl = configuredUrl ?? `https://${parsed.host}`;
+    // An HTTPS remote on an instance with a path prefix includes that prefix
+    const prefix = new URL(baseUrl).pathname.replace(/^\/|\/$/g, '');
+    const project = prefix && parsed.path.startsWith(`${prefix}/`) ? parsed.path.slice(prefix.length + 1) : parsed.path;
+    return { baseUrl, project };
+  }
+
+  /**
+   * GitLab takes user ids, not usernames, for reviewers and assignees.
+   * Unknown usernames are skipped (with a warning) rather than blocking the MR.
+   */
+  async function userIds(baseUrl: string, usernames: string[], warnings: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const username of usernames) {
+      const [user] = await requestJson<Array<{ id: number }>>(`${baseUrl}/api/v4/users?username=${encodeURIComponent(username)}`, {
+        headers: authHeaders,
+      });
+      if (user) ids.push(user.id);
+      else warnings.push(`GitLab user "${username}" not found`);
+    }
+    return ids;
+  }
+
+  /** Title, body and metadata fields shared by create and update. */
+  async function mergeRequestFields(baseUrl: string, input: PullRequestInput): Promise<{ fields: Record<string, unknown>; warnings: string[] }> {
+    const warnings: string[] = [];
+    const fields: Record<string, unknown> = {
+      // Drafts are marked by the title prefix
+      title: input.draft ? `Draft: ${input.title}` : input.title,
+      description: input.body,
+    };
+    if (input.labels?.length) fields.labels = input.labels.join(',');
+    if (input.reviewers?.length) fields.reviewer_ids = await userIds(baseUrl, input.reviewers, warnings);
+    if (input.assignees?.length) fields.assignee_ids = await userIds(baseUrl, input.assignees, warnings);
+    return { fields, warnings };
+  }
+
+  return {
+    name: 'GitLab',
+
+    async createPullRequest(repoDir, input): Promise<PullRequest> {
+      const { baseUrl, project } = remoteProject(repoDir);
+      const { fields, warnings } = await mergeRequestFields(baseUrl, input);
+      let mr: GitLabMergeRequest;
+      try {
+        mr = await api<GitLabMergeRequest>(baseUrl, project, '/merge_requests', 'POST', {
+          source_branch: input.head,
+          target_branch: input.base,
+          ...fields,
+        });
+      } catch (e) {
+        // A retried ticket pushes to the same branch — reuse its open MR
+        if (!(e instanceof HttpError && e.status === 409)) throw e;
+        const [existing] = await api<GitLabMergeRequest[]>(baseUrl, project, `/merge_requests?state=opened&source_branch=${encodeURIComponent(input.head)}`);
+        if (!existing) throw e;
+        mr = await api<GitLabMergeRequest>(baseUrl, project, `/merge_requests/${existing.iid}`, 'PUT', fields);
+      }
+      return { url: mr.web_url, number: mr.iid, ...(warnings.length > 0 && { warnings }) };
+    },
+
+    async updatePullRequest(prUrl, changes): Promise<void> {
+      const { baseUrl, project, iid } = mergeRequest(prUrl);
+      await api(baseUrl, project, `/merge_requests/${iid}`, 'PUT', { title: changes.title, description: changes.body });
+    },
+
+    async fetchPullRequestStatus(prUrl): Promise<PRStatus> {
+      const { baseUrl, project, iid } = mergeRequest(prUrl);
+      return mergeRequestStatus(await api<GitLabMergeRequest>(baseUrl, project, `/merge_requests/${iid}`));
+    },
+
+    async commentOnPullRequest(prUrl, body): Promise<void> {
+      const { baseUrl, project, iid } = mergeRequest(prUrl);
+      await api(baseUrl, project, `/merge_requests/${iid}/notes`, 'POST', { body });
+    },
+
+    async fetchReviewThreads(prUrl): Promise<ReviewThread[]> {
+      const { baseUrl, project, iid } = mergeRequest(prUrl);
+      return unresolvedDiscussions(await allPages<GitLabDiscussion>(baseUrl, project, `/merge_requests/${iid}/discussions`));
+    },
+
+    async replyToReviewThread(prUrl, threadId, body): Promise<void> {
+      const { baseUrl, project, iid } = mergeRequest(prUrl);
+      await api(baseUrl, project, `/merge_requests/${iid}/discussions/${threadId}/notes`, 'POST', { body });
+    },
+
+    async fetchChecks(prUrl, sha): Promise<CheckRun[]> {
+      const { baseUrl, project } = mergeRequest(prUrl);
+      // Newest pipeline for the commit (branch and merge request pipelines share the sha)
+      const [pipeline] = await api<Array<{ id: number }>>(baseUrl, project, `/pipelines?sha=${encodeURIComponent(sha)}&order_by=id&sort=desc`);
+      if (!pipeline) return [];
+      const jobs = await allPages<GitLabJob>(baseUrl, project, `/pipelines/${pipeline.id}/jobs`);
+      return jobs.map((job) => ({ id: String(job.id), name: job.name, state: jobState(job), url: job.web_url }));
+    },
+
+    async fetchCheckLog(prUrl, checkId): Promise<string> {
+      const { baseUrl, project } = mergeRequest(prUrl);
+      const trace = await requestBuffer(`${baseUrl}/api/v4/projects/${encodeURIComponent(project)}/jobs/${checkId}/trace`, {
+        headers: authHeaders,
+        maxBytes: 20 * 1024 * 1024,
+      });
+      return trace.toString('utf-8');
+    },
+  };
+}
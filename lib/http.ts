@@ -0,0 +1,74 @@
+// -- Minimal JSON-over-HTTP client (global fetch, Node 18+) --
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly method: string,
+    readonly url: string,
+    readonly body: string,
+  ) {
+    super(`${method} ${url} failed with ${status}${body ? `: ${body.slice(0, 300)}` : ''}`);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  /** Serialized as JSON when set. */
+  body?: unknown;
+  timeoutMs?: number;
+}
+
+/**
+ * Send a request and parse the JSON response. Empty bodies (204) resolve to
+ * undefined. Non-2xx responses throw an HttpError carrying the status.
+ */
+export async function requestJson<T>(url: string, options: RequestOptions = {}): Promise<T> {
+  const method = options.method ?? 'GET';
+  const headers: Record<string, string> = { Accept: 'application/json', ...options.headers };
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: AbortSignal.timeout(options.timeoutMs ?? 30_000),
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new HttpError(response.status, method, url, text);
+  }
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+export interface DownloadOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  /** Reject responses larger than this. */
+  maxBytes?: number;
+}
+
+/** GET a binary resource. Non-2xx responses throw an HttpError. */
+export async function requestBuffer(url: string, options: DownloadOptions = {}): Promise<Buffer> {
+  const response = await fetch(url, {
+    headers: options.headers,
+    signal: AbortSignal.timeout(options.timeoutMs ?? 60_000),
+  });
+  if (!response.ok) {
+    throw new HttpError(response.status, 'GET', url, await response.text());
+  }
+
+  const maxBytes = options.maxBytes ?? Infinity;
+  const declared = Number(response.headers.get('content-length') ?? 0);
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`GET ${url}: ${declared} bytes exceeds the ${maxBytes} byte limit`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > maxBytes) {
+    throw new Error(`GET ${url}: ${data.length} bytes exceeds the ${maxBytes} byte limit`);
+  }
+  return data;
+}
@@ -0,0 +1,164 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type { LockEntry, Ticket } from '../config.js';
+import { CONFIG_DIR } from './paths.js';
+
+// -- Job ledger --
+//
+// Every agent run, test checklist, feedback check and recorded PR merge is
+// kept in an append-only JSONL file under .ticket-to-pr/: each line is the
+// full state of one job after a change, and the last line for a job wins.
+// On startup the ledger tells the orchestrator which runs were cut off by a
+// crash or restart (still "running") and which tickets were already handled.
+
+export type JobKind = LockEntry['mode'] | 'testing' | 'feedback' | 'merge';
+
+export type JobOutcome = 'running' | 'succeeded' | 'failed' | 'interrupted';
+
+export interface JobRecord {
+  id: string;
+  ticketId: string;
+  title: string;
+  project: string;
+  kind: JobKind;
+  outcome: JobOutcome;
+  /** Step the run was in last (e.g. "agent", "validation", "push"). */
+  phase?: string;
+  /** ISO timestamps. */
+  startedAt: string;
+  updatedAt: string;
+  cost?: number;
+  branch?: string;
+  worktreeDir?: string;
+  prUrl?: string;
+  /** Last commit the diff review approved (execute runs). */
+  reviewedCommit?: string;
+  error?: string;
+}
+
+export type JobPatch = Partial<Pick<JobRecord, 'phase' | 'cost' | 'branch' | 'worktreeDir' | 'prUrl' | 'reviewedCommit' | 'error'>>;
+
+export interface JobLedger {
+  /** Record a new run for a ticket. A ticket has at most one running job: one still running is closed as interrupted. */
+  start(ticket: Ticket, kind: JobKind): JobRecord;
+  /** Update the ticket's running job. No-op if it has none. */
+  update(ticketId: string, patch: JobPatch): void;
+  /** Close the ticket's running job. No-op if it has none. */
+  finish(ticketId: string, outcome: Exclude<JobOutcome, 'running'>, patch?: JobPatch): void;
+  /** Record a job that is done as soon as it starts (e.g. a merge written to the ticket). Leaves a running job alone. */
+  record(ticket: Ticket, kind: JobKind, outcome: Exclude<JobOutcome, 'running'>, patch?: JobPatch): void;
+  /** Latest state of every job, oldest first. */
+  all(): JobRecord[];
+  /** Jobs still marked running — at startup, runs that never finished. */
+  running(): JobRecord[];
+  /** Tickets with a finished job of this kind. */
+  ticketsWith(kind: JobKind): Set<string>;
+  /** Rewrite the file with one line per job, dropping finished jobs last updated more than `retentionMs` ago. */
+  compact(retentionMs?: number): void;
+}
+
+const JOBS_PATH = join(CONFIG_DIR, '.ticket-to-pr', 'jobs.jsonl');
+
+function readJobs(path: string): Map<string, JobRecord> {
+  const jobs = new Map<string, JobRecord>();
+  if (!existsSync(path)) return jobs;
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const job = JSON.parse(line) as JobRecord;
+      if (job.id && job.ticketId) jobs.set(job.id, job);
+    } catch {
+      // A line cut short by a crash mid-write — the previous state stands
+    }
+  }
+  return jobs;
+}
+
+export function createJobLedger(path = JOBS_PATH): JobLedger {
+  let jobs: Map<string, JobRecord> | null = null;
+  // ticketId → id of its running job
+  const current = new Map<string, string>();
+
+  function load(): Map<string, JobRecord> {
+    if (jobs) return jobs;
+    jobs = readJobs(path);
+    for (const job of jobs.values()) {
+      if (job.outcome === 'running') current.set(job.ticketId, job.id);
+    }
+    return jobs;
+  }
+
+  function write(job: JobRecord): void {
+    load().set(job.id, job);
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      appendFileSync(path, JSON.stringify(job) + '\n');
+    } catch {
+      // Best-effort — an unwritable ledger must not fail the run itself
+    }
+  }
+
+  function change(ticketId: string, patch: Partial<JobRecord>): void {
+    const id = (load(), current.get(ticketId));
+    const job = id ? jobs!.get(id) : undefined;
+    if (!job) return;
+    write({ ...job, ...patch, updatedAt: new Date().toISOString() });
+  }
+
+  function newJob(ticket: Ticket, kind: JobKind, outcome: JobOutcome): JobRecord {
+    const now = new Date().toISOString();
+    return {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      ticketId: ticket.id,
+      title: ticket.title,
+      project: ticket.project,
+      kind,
+      outcome,
+      startedAt: now,
+      updatedAt: now,
+    };
+  }
+
+  return {
+    start(ticket, kind) {
+      // Its run can no longer report back once the ticket's running job is replaced
+      change(ticket.id, { outcome: 'interrupted', error: 'Superseded by a new run before it finished.' });
+      const job = newJob(ticket, kind, 'running');
+      current.set(ticket.id, job.id);
+      write(job);
+      return job;
+    },
+    update(ticketId, patch) {
+      change(ticketId, patch);
+    },
+    finish(ticketId, outcome, patch = {}) {
+      change(ticketId, { ...patch, outcome });
+      current.delete(ticketId);
+    },
+    record(ticket, kind, outcome, patch = {}) {
+      write({ ...newJob(ticket, kind, outcome), ...patch });
+    },
+    all() {
+      return [...load().values()];
+    },
+    running() {
+      return [...load().values()].filter((job) => job.outcome === 'running');
+    },
+    ticketsWith(kind) {
+      return new Set([...load().values()].filter((job) => job.kind === kind && job.outcome !== 'running').map((job) => job.ticketId));
+    },
+    compact(retentionMs = Infinity) {
+      const cutoff = Date.now() - retentionMs;
+      for (const [id, job] of load()) {
+        if (job.outcome !== 'running' && Date.parse(job.updatedAt) < cutoff) jobs!.delete(id);
+      }
+      const lines = [...jobs!.values()].map((job) => JSON.stringify(job) + '\n').join('');
+      try {
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, lines);
+      } catch {
+        // Best-effort — the uncompacted file is still valid
+      }
+    },
+  };
+}
@@ -0,0 +1,258 @@
+import {
+  CONFIG,
+  type Ticket,
+  type TicketDetails,
+  type TicketComment,
+  type TicketSource,
+  type ReviewOutput,
+  type ExecutionResults,
+} from '../config.js';
+import { requestJson } from './http.js';
+import { getLinearConfig } from './projects.js';
+import {
+  isBotComment,
+  tagComment,
+  formatReviewComment,
+  formatFailureComment,
+  formatPullRequestLine,
+  parseReviewComments,
+} from './ticket-format.js';
+
+// Linear as a board: workflow states stand in for the pipeline columns,
+// mapped via the `linear.states` section of projects.json. Linear has no
+// custom fields, so review results live in a tagged issue comment.
+
+interface LinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string | null;
+  url: string;
+  state?: { name: string } | null;
+  project?: { name: string } | null;
+}
+
+interface LinearComment {
+  body: string;
+  createdAt: string;
+  user?: { name: string } | null;
+}
+
+interface Connection<T> {
+  nodes: T[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+export interface LinearOptions {
+  apiKey: string;
+  /** Team key (e.g. "ENG"). */
+  team: string;
+  /** CONFIG.COLUMNS name → Linear workflow state name. */
+  states?: Record<string, string>;
+  apiUrl?: string;
+}
+
+const ISSUE_FIELDS = 'id identifier title url state { name } project { name }';
+
+/** Linear state name for a pipeline column. */
+export function columnToState(column: string, states: Record<string, string> = {}): string {
+  return states[column] ?? column;
+}
+
+/** Pipeline column for a Linear state name, or '' if the state isn't part of the pipeline. */
+export function stateToColumn(state: string, states: Record<string, string> = {}): string {
+  for (const column of Object.values(CONFIG.COLUMNS)) {
+    if (columnToState(column, states) === state) return column;
+  }
+  return '';
+}
+
+export function createLinearSource(options?: LinearOptions): TicketSource {
+  const opts = options ?? {
+    apiKey: process.env.LINEAR_API_KEY ?? '',
+    team: getLinearConfig().team ?? process.env.LINEAR_TEAM ?? '',
+    states: getLinearConfig().states,
+    apiUrl: process.env.LINEAR_API_URL,
+  };
+  if (!opts.team) {
+    throw new Error('Linear team not configured. Set LINEAR_TEAM in .env.local or linear.team in projects.json.');
+  }
+  const apiUrl = opts.apiUrl || 'https://api.linear.app/graphql';
+  const states = opts.states ?? {};
+  const stateIds = new Map<string, string>();
+  const issueUrls = new Map<string, string>();
+
+  async function gql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const response = await requestJson<{ data?: T; errors?: Array<{ message: string }> }>(apiUrl, {
+      method: 'POST',
+      headers: { Authorization: opts.apiKey },
+      body: { query, variables },
+    });
+    if (response.errors?.length) {
+      throw new Error(`Linear API error: ${response.errors.map((e) => e.message).join('; ')}`);
+    }
+    return response.data as T;
+  }
+
+  function issueToTicket(issue: LinearIssue): Ticket {
+    issueUrls.set(issue.id, issue.url);
+    return {
+      id: issue.id,
+      title: issue.title,
+      project: issue.project?.name ?? '',
+      status: stateToColumn(issue.state?.name ?? '', states),
+    };
+  }
+
+  async function stateId(column: string): Promise<string> {
+    const name = columnToState(column, states);
+    const cached = stateIds.get(name);
+    if (cached) return cached;
+    const data = await gql<{ workflowStates: { nodes: Array<{ id: string }> } }>(
+      `query States($team: String!, $name: String!) {
+        workflowStates(filter: { team: { key: { eq: $team } }, name: { eq: $name } }) { nodes { id } }
+      }`,
+      { team: opts.team, name },
+    );
+    const id = data.workflowStates.nodes[0]?.id;
+    if (!id) {
+      throw new Error(`Linear team ${opts.team} has no workflow state "${name}" (mapped from column "${column}")`);
+    }
+    stateIds.set(name, id);
+    return id;
+  }
+
+  async function listComments(issueId: string): Promise<LinearComment[]> {
+    const comments: LinearComment[] = [];
+    let after: string | null = null;
+    do {
+      const data: { issue: { comments: Connection<LinearComment> } } = await gql(
+        `query Comments($id: String!, $after: String) {
+          issue(id: $id) { comments(first: 100, after: $after) { nodes { body createdAt user { name } } pageInfo { hasNextPage endCursor } } }
+        }`,
+        { id: issueId, after },
+      );
+      comments.push(...data.issue.comments.nodes);
+      after = data.issue.comments.pageInfo.hasNextPage ? data.issue.comments.pageInfo.endCursor : null;
+    } while (after);
+    return comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async function postComment(issueId: string, body: string): Promise<void> {
+    await gql(
+      `mutation Comment($issueId: String!, $body: String!) { commentCreate(input: { issueId: $issueId, body: $body }) { success } }`,
+      { issueId, body },
+    );
+  }
+
+  async function moveTicketStatus(issueId: string, newStatus: string): Promise<void> {
+    await gql(
+      `mutation Move($id: String!, $stateId: String!) { issueUpdate(id: $id, input: { stateId: $stateId }) { success } }`,
+      { id: issueId, stateId: await stateId(newStatus) },
+    );
+  }
+
+  async function hasBotMarker(issueId: string, marker: string): Promise<boolean> {
+    try {
+      const comments = await listComments(issueId);
+      return comments.some((c) => isBotComment(c.body) && c.body.includes(marker));
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    name: 'Linear',
+
+    async fetchTicketsByStatus(status: string): Promise<Ticket[]> {
+      const issues: LinearIssue[] = [];
+      let after: string | null = null;
+      do {
+        const data: { issues: Connection<LinearIssue> } = await gql(
+          `query Issues($team: String!, $state: String!, $after: String) {
+            issues(first: 100, after: $after, filter: { team: { key: { eq: $team } }, state: { name: { eq: $state } } }) {
+              nodes { ${ISSUE_FIELDS} } pageInfo { hasNextPage endCursor }
+            }
+          }`,
+          { team: opts.team, state: columnToState(status, states), after },
+        );
+        issues.push(...data.issues.nodes);
+        after = data.issues.pageInfo.hasNextPage ? data.issues.pageInfo.endCursor : null;
+      } while (after);
+      return issues.map(issueToTicket);
+    },
+
+    async fetchTicketDetails(issueId: string): Promise<TicketDetails> {
+      const [data, comments] = await Promise.all([
+        gql<{ issue: LinearIssue }>(
+          `query Issue($id: String!) { issue(id: $id) { ${ISSUE_FIELDS} description } }`,
+          { id: issueId },
+        ),
+        listComments(issueId),
+      ]);
+      return {
+        ...issueToTicket(data.issue),
+        description: data.issue.description ?? '',
+        bodyBlocks: '',
+        ...parseReviewComments(comments.map((c) => c.body).filter(isBotComment)),
+      };
+    },
+
+    async writeReviewResults(issueId: string, results: ReviewOutput): Promise<void> {
+      await postComment(issueId, formatReviewComment(results));
+    },
+
+    async writeExecutionResults(issueId: string, results: ExecutionResults): Promise<void> {
+      if (results.prUrl) {
+        // Attachments show up in Linear's sidebar and link the PR to the issue
+        await gql(
+          `mutation Link($issueId: String!, $url: String!) { attachmentLinkURL(issueId: $issueId, url: $url) { success } }`,
+          { issueId, url: results.prUrl },
+        );
+      }
+      await postComment(issueId, tagComment([
+        formatPullRequestLine(results.prUrl),
+        `Branch: \`${results.branch}\``,
+        `Cost: $${(Math.round(results.cost * 100) / 100).toFixed(2)}`,
+      ].join('\n')));
+    },
+
+    moveTicketStatus,
+
+    async writeFailure(issueId: string, error: string): Promise<void> {
+      await postComment(issueId, formatFailureComment(error));
+      await moveTicketStatus(issueId, CONFIG.COLUMNS.FAILED);
+    },
+
+    async addComment(issueId: string, text: string): Promise<void> {
+      try {
+        await postComment(issueId, tagComment(text));
+      } catch (e) {
+        // Best-effort: log but don't throw
+        console.warn(`[LINEAR] Failed to add comment to ${issueId}:`, e);
+      }
+    },
+
+    async fetchComments(issueId: string): Promise<TicketComment[]> {
+      try {
+        const comments = await listComments(issueId);
+        return comments
+          .filter((c) => c.body.trim() && !isBotComment(c.body))
+          .map((c) => ({ author: c.user?.name || 'Unknown', text: c.body.trim(), createdTime: c.createdAt }));
+      } catch (e) {
+        console.warn(`[LINEAR] Failed to fetch comments for ${issueId}:`, e);
+        return [];
+      }
+    },
+
+    hasFeedbackMarker: (issueId) => hasBotMarker(issueId, 'Feedback processed'),
+    hasTestingMarker: (issueId) => hasBotMarker(issueId, 'Ready for Testing'),
+
+    // Linear tracks state transition times itself, and the linked PR shows who merged it
+    trySetDate: async () => {},
+    // The merge is recorded by the orchestrator's "🔀 PR Merged" comment
+    writePRMerge: async () => {},
+
+    ticketUrl: (issueId) => issueUrls.get(issueId) ?? `https://linear.app/issue/${issueId}`,
+  };
+}
@@ -0,0 +1,271 @@
+import { readFileSync, writeFileSync, renameSync, existsSync, mkdirSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  CONFIG,
+  type Ticket,
+  type TicketDetails,
+  type TicketComment,
+  type TicketDateField,
+  type TicketSource,
+  type PRMergeInfo,
+  type ReviewOutput,
+  type ExecutionResults,
+} from '../config.js';
+import { CONFIG_DIR } from './paths.js';
+import { columnSlug, formatSpec, formatImpact } from './ticket-format.js';
+
+// A board made of markdown files: <boardDir>/<column-slug>/<id>.md.
+// Moving the file between folders is the status change. Scalar fields live
+// in front-matter; Spec, Impact and Comments are managed `##` sections after
+// the free-form description.
+
+/** Comment author used for everything we write. */
+export const BOARD_BOT = 'ticket-to-pr';
+
+const SECTIONS = ['Spec', 'Impact', 'Comments'] as const;
+type SectionName = typeof SECTIONS[number];
+
+export interface BoardTicketFile {
+  fields: Record<string, string>;
+  description: string;
+  sections: Partial<Record<SectionName, string>>;
+}
+
+// Content lines that would read back as a managed heading (or, in a comment,
+// as the next comment) are written with a leading backslash, one more than
+// they had, so free-form review output round-trips.
+const SECTION_HEADING_LINE = new RegExp(`^(\\\\*)(## (?:${SECTIONS.join('|')})\\s*)$`, 'gm');
+const ESCAPED_SECTION_HEADING_LINE = new RegExp(`^\\\\(\\\\*)(## (?:${SECTIONS.join('|')})\\s*)$`, 'gm');
+const COMMENT_HEADING_LINE = /^(\\*)(### )/gm;
+const ESCAPED_COMMENT_HEADING_LINE = /^\\(\\*)(### )/gm;
+
+export function parseTicketFile(content: string): BoardTicketFile {
+  const fields: Record<string, string> = {};
+  let rest = content;
+
+  const frontMatter = content.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    for (const line of frontMatter[1].split('\n')) {
+      const colon = line.indexOf(':');
+      if (colon === -1) continue;
+      fields[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+    }
+    rest = content.slice(frontMatter[0].length);
+  }
+
+  // Split on the managed section headings only — "## Acceptance Tests" stays inside Spec
+  const headingRegex = new RegExp(`^## (${SECTIONS.join('|')})\\s*$`, 'gm');
+  const headings = [...rest.matchAll(headingRegex)];
+  const description = (headings.length > 0 ? rest.slice(0, headings[0].index) : rest).trim();
+  const sections: BoardTicketFile['sections'] = {};
+  headings.forEach((h, i) => {
+    const start = h.index! + h[0].length;
+    const end = i + 1 < headings.length ? headings[i + 1].index : rest.length;
+    sections[h[1] as SectionName] = rest.slice(start, end).trim().replace(ESCAPED_SECTION_HEADING_LINE, '$1$2');
+  });
+
+  return { fields, description, sections };
+}
+
+export function serializeTicketFile(file: BoardTicketFile): string {
+  const parts: string[] = [];
+  const fieldLines = Object.entries(file.fields)
+    .filter(([, v]) => v !== '')
+    .map(([k, v]) => `${k}: ${v.replace(/\n/g, ' ')}`);
+  if (fieldLines.length > 0) {
+    parts.push('---', ...fieldLines, '---', '');
+  }
+  if (file.description) parts.push(file.description, '');
+  for (const name of SECTIONS) {
+    const body = file.sections[name];
+    if (body) parts.push(`## ${name}`, '', body.replace(SECTION_HEADING_LINE, '\\$1$2'), '');
+  }
+  return parts.join('\n');
+}
+
+/** Comments are `### <timestamp> — <author>` entries in the Comments section. */
+export function parseComments(section: string | undefined): TicketComment[] {
+  if (!section) return [];
+  const comments: TicketComment[] = [];
+  for (const chunk of section.split(/^(?=### )/m)) {
+    const header = chunk.match(/^### (\S+) — (.+)\n?/);
+    if (!header) continue;
+    const text = chunk.slice(header[0].length).trim().replace(ESCAPED_COMMENT_HEADING_LINE, '$1$2');
+    comments.push({ createdTime: header[1], author: header[2].trim(), text });
+  }
+  return comments;
+}
+
+function formatComment(comment: TicketComment): string {
+  return `### ${comment.createdTime} — ${comment.author}\n${comment.text.replace(COMMENT_HEADING_LINE, '\\$1$2')}`;
+}
+
+const DATE_FIELDS: Record<TicketDateField, string> = {
+  testingAt: 'testingAt',
+  doneAt: 'doneAt',
+};
+
+export function createLocalBoardSource(boardDir?: string): TicketSource {
+  const root = boardDir ?? process.env.LOCAL_BOARD_DIR ?? join(CONFIG_DIR, '.ticket-to-pr', 'board');
+
+  function columnDir(column: string): string {
+    return join(root, columnSlug(column));
+  }
+
+  function locate(ticketId: string): { path: string; status: string } {
+    for (const column of Object.values(CONFIG.COLUMNS)) {
+      const path = join(columnDir(column), `${ticketId}.md`);
+      if (existsSync(path)) return { path, status: column };
+    }
+    throw new Error(`Ticket ${ticketId} not found on local board ${root}`);
+  }
+
+  function read(ticketId: string): { path: string; status: string; file: BoardTicketFile } {
+    const { path, status } = locate(ticketId);
+    return { path, status, file: parseTicketFile(readFileSync(path, 'utf-8')) };
+  }
+
+  function update(ticketId: string, fn: (file: BoardTicketFile) => void): void {
+    const { path, file } = read(ticketId);
+    fn(file);
+    writeFileSync(path, serializeTicketFile(file));
+  }
+
+  function toTicket(ticketId: string, status: string, file: BoardTicketFile): Ticket {
+    return { id: ticketId, title: file.fields.title || ticketId, project: file.fields.project ?? '', status };
+  }
+
+  function appendComment(file: BoardTicketFile, text: string): void {
+    const entry = formatComment({ author: BOARD_BOT, text, createdTime: new Date().toISOString() });
+    file.sections.Comments = file.sections.Comments ? `${file.sections.Comments}\n\n${entry}` : entry;
+  }
+
+  function moveTicketStatus(ticketId: string, newStatus: string): Promise<void> {
+    const { path } = locate(ticketId);
+    mkdirSync(columnDir(newStatus), { recursive: true });
+    renameSync(path, join(columnDir(newStatus), `${ticketId}.md`));
+    return Promise.resolve();
+  }
+
+  function hasBotMarker(ticketId: string, marker: string): Promise<boolean> {
+    try {
+      const comments = parseComments(read(ticketId).file.sections.Comments);
+      return Promise.resolve(comments.some((c) => c.author === BOARD_BOT && c.text.includes(marker)));
+    } catch {
+      return Promise.resolve(false);
+    }
+  }
+
+  return {
+    name: 'Local board',
+
+    async fetchTicketsByStatus(status: string): Promise<Ticket[]> {
+      const dir = columnDir(status);
+      if (!existsSync(dir)) return [];
+      return readdirSync(dir)
+        .filter((f) => f.endsWith('.md'))
+        .sort()
+        .map((f) => {
+          const id = f.slice(0, -3);
+          return toTicket(id, status, parseTicketFile(readFileSync(join(dir, f), 'utf-8')));
+        });
+    },
+
+    async fetchTicketDetails(ticketId: string): Promise<TicketDetails> {
+      const { status, file } = read(ticketId);
+      const ease = Number(file.fields.ease);
+      const confidence = Number(file.fields.confidence);
+      return {
+        ...toTicket(ticketId, status, file),
+        description: file.description,
+        bodyBlocks: '',
+        spec: file.sections.Spec || undefined,
+        impact: file.sections.Impact || undefined,
+        ease: file.fields.ease && !isNaN(ease) ? ease : undefined,
+        confidence: file.fields.confidence && !isNaN(confidence) ? confidence : undefined,
+        prUrl: file.fields.prUrl || undefined,
+      };
+    },
+
+    async writeReviewResults(ticketId: string, results: ReviewOutput): Promise<void> {
+      update(ticketId, (file) => {
+        file.fields.ease = String(results.easeScore);
+        file.fields.confidence = String(results.confidenceScore);
+        file.fields.reviewedAt = new Date().toISOString();
+        file.sections.Spec = formatSpec(results);
+        file.sections.Impact = formatImpact(results);
+      });
+    },
+
+    async writeExecutionResults(ticketId: string, results: ExecutionResults): Promise<void> {
+      update(ticketId, (file) => {
+        file.fields.branch = results.branch;
+        file.fields.cost = `$${(Math.round(results.cost * 100) / 100).toFixed(2)}`;
+        file.fields.executedAt = new Date().toISOString();
+        if (results.prUrl) file.fields.prUrl = results.prUrl;
+        if (results.prNumber) file.fields.prNumber = String(results.prNumber);
+        if (results.prNodeId) file.fields.prNodeId = results.prNodeId;
+      });
+    },
+
+    moveTicketStatus,
+
+    async writeFailure(ticketId: string, error: string): Promise<void> {
+      update(ticketId, (file) => {
+        file.sections.Impact = `ERROR: ${error}`;
+        file.fields.failedAt = new Date().toISOString();
+      });
+      await moveTicketStatus(ticketId, CONFIG.COLUMNS.FAILED);
+    },
+
+    async addComment(ticketId: string, text: string): Promise<void> {
+      try {
+        update(ticketId, (file) => appendComment(file, text));
+      } catch (e) {
+        // Best-effort: log but don't throw
+        console.warn(`[BOARD] Failed to add comment to ${ticketId}:`, e);
+      }
+    },
+
+    async fetchComments(ticketId: string): Promise<TicketComment[]> {
+      try {
+        return parseComments(read(ticketId).file.sections.Comments).filter((c) => c.author !== BOARD_BOT && c.text);
+      } catch (e) {
+        console.warn(`[BOARD] Failed to fetch comments for ${ticketId}:`, e);
+        return [];
+      }
+    },
+
+    hasFeedbackMarker: (ticketId) => hasBotMarker(ticketId, 'Feedback processed'),
+    hasTestingMarker: (ticketId) => hasBotMarker(ticketId, 'Ready for Testing'),
+
+    async trySetDate(ticketId: string, field: TicketDateField): Promise<void> {
+      try {
+        update(ticketId, (file) => {
+          file.fields[DATE_FIELDS[field]] = new Date().toISOString();
+        });
+      } catch {
+        // Ticket may have been moved or deleted — skip silently
+      }
+    },
+
+    async writePRMerge(ticketId: string, info: PRMergeInfo): Promise<void> {
+      try {
+        update(ticketId, (file) => {
+          file.fields.mergedAt = info.mergedAt;
+          if (info.mergedBy) file.fields.mergedBy = info.mergedBy;
+        });
+      } catch {
+        // Ticket may have been moved or deleted — skip silently
+      }
+    },
+
+    ticketUrl(ticketId: string): string {
+      try {
+        return `file://${locate(ticketId).path}`;
+      } catch {
+        return `file://${root}`;
+      }
+    },
+  };
+}
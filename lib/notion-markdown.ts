@@ -0,0 +1,262 @@
+import type {
+  BlockObjectResponse,
+  RichTextItemResponse,
+} from '@notionhq/client/build/src/api-endpoints.js';
+import type { TicketAttachment } from '../config.js';
+
+// -- Notion blocks → markdown --
+//
+// Converts a fetched block tree (see fetchBlockTree in notion.ts) into the
+// markdown the agents read. Inline formatting, links, mentions and equations
+// are preserved; lists keep their numbering and nesting; tables become
+// markdown tables.
+
+/** A block with its nested children already fetched. */
+export type NotionBlock = BlockObjectResponse & { children?: NotionBlock[] };
+
+type BlockData = {
+  rich_text?: RichTextItemResponse[];
+  caption?: RichTextItemResponse[];
+  checked?: boolean;
+  language?: string;
+  url?: string;
+  expression?: string;
+  title?: string;
+  name?: string;
+  icon?: { type: string; emoji?: string } | null;
+  type?: 'file' | 'external' | 'file_upload';
+  file?: { url: string };
+  external?: { url: string };
+  has_column_header?: boolean;
+  cells?: RichTextItemResponse[][];
+};
+
+function blockData(block: BlockObjectResponse): BlockData {
+  return ((block as Record<string, unknown>)[block.type] ?? {}) as BlockData;
+}
+
+/** Wrap text in a markdown marker, keeping surrounding whitespace outside it ("**bold** " not "**bold **"). */
+function wrap(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function richTextItemToMarkdown(item: RichTextItemResponse): string {
+  if (item.type === 'equation') {
+    return `$${item.equation.expression}$`;
+  }
+
+  let text = item.plain_text;
+  if (item.type === 'mention') {
+    const mention = item.mention as { type: string; link_mention?: { href: string; title?: string } };
+    if (mention.type === 'link_mention' && mention.link_mention) {
+      return `[${mention.link_mention.title || text || mention.link_mention.href}](${mention.link_mention.href})`;
+    }
+    if (mention.type === 'user') {
+      text = text.startsWith('@') ? text : `@${text}`;
+    }
+  }
+
+  const a = item.annotations;
+  if (a?.code) {
+    text = wrap(text, '`');
+  } else {
+    if (a?.bold) text = wrap(text, '**');
+    if (a?.italic) text = wrap(text, '_');
+  }
+  if (a?.strikethrough) text = wrap(text, '~~');
+  if (item.href) text = `[${text}](${item.href})`;
+  return text;
+}
+
+/** Rich text with bold/italic/strikethrough/code annotations, links, mentions and inline equations. */
+export function richTextToMarkdown(richText: RichTextItemResponse[] | undefined): string {
+  return (richText ?? []).map(richTextItemToMarkdown).join('');
+}
+
+function fileUrl(data: BlockData): string {
+  if (data.type === 'external') return data.external?.url ?? '';
+  return data.file?.url ?? '';
+}
+
+/** The basename of a URL, ignoring query strings (Notion file URLs are signed). */
+function urlName(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || url;
+  } catch {
+    return url;
+  }
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function tableToMarkdown(block: NotionBlock): string {
+  const rows = (block.children ?? [])
+    .filter((row) => row.type === 'table_row')
+    .map((row) => (blockData(row).cells ?? []).map((cell) => escapeCell(richTextToMarkdown(cell))));
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (r: string[]) => [...r, ...Array(width - r.length).fill('')];
+  const line = (r: string[]) => `| ${pad(r).join(' | ')} |`;
+
+  // Markdown tables need a header row; without one, emit an empty header
+  const hasHeader = blockData(block).has_column_header;
+  const header = hasHeader ? rows[0] : Array(width).fill('');
+  const body = hasHeader ? rows.slice(1) : rows;
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+/**
+ * Markdown for a single block, without its children.
+ * `number` is the position of a numbered list item within its list.
+ */
+export function blockToMarkdown(block: BlockObjectResponse, number = 1): string {
+  const data = blockData(block);
+  const text = richTextToMarkdown(data.rich_text);
+  const caption = richTextToMarkdown(data.caption);
+
+  switch (block.type) {
+    case 'paragraph':
+      return text;
+    case 'heading_1':
+      return `# ${text}`;
+    case 'heading_2':
+      return `## ${text}`;
+    case 'heading_3':
+      return `### ${text}`;
+    case 'bulleted_list_item':
+      return `- ${text}`;
+    case 'numbered_list_item':
+      return `${number}. ${text}`;
+    case 'to_do':
+      return `- [${data.checked ? 'x' : ' '}] ${text}`;
+    case 'toggle':
+      return `▸ ${text}`;
+    case 'code':
+      // Code content is literal — annotations would corrupt it
+      return `\`\`\`${data.language === 'plain text' ? '' : data.language ?? ''}\n${(data.rich_text ?? []).map((t) => t.plain_text).join('')}\n\`\`\``;
+    case 'quote':
+      return text.split('\n').map((l) => `> ${l}`).join('\n');
+    case 'callout': {
+      const icon = data.icon?.type === 'emoji' && data.icon.emoji ? `${data.icon.emoji} ` : '';
+      return text.split('\n').map((l, i) => `> ${i === 0 ? icon : ''}${l}`).join('\n');
+    }
+    case 'equation':
+      return `$$\n${data.expression ?? ''}\n$$`;
+    case 'divider':
+      return '---';
+    case 'image': {
+      const url = fileUrl(data);
+      return url ? `![${caption || urlName(url)}](${url})` : '';
+    }
+    case 'file':
+    case 'pdf':
+    case 'video':
+    case 'audio': {
+      const url = fileUrl(data);
+      return url ? `[${caption || data.name || urlName(url)}](${url})` : '';
+    }
+    case 'bookmark':
+    case 'embed':
+    case 'link_preview':
+      return data.url ? `[${caption || data.url}](${data.url})` : '';
+    case 'child_page':
+      return `📄 ${data.title ?? 'Untitled'}`;
+    case 'child_database':
+      return `🗃️ ${data.title ?? 'Untitled'}`;
+    case 'table':
+      return tableToMarkdown(block as NotionBlock);
+    // Containers — their children carry the content
+    case 'synced_block':
+    case 'column_list':
+    case 'column':
+    case 'table_row':
+      return '';
+    default:
+      return text;
+  }
+}
+
+/** Blocks whose children are rendered by the block itself, or are not content. */
+const SELF_RENDERED = new Set(['table']);
+
+/** Blocks whose children continue the parent rather than nesting under it. */
+const TRANSPARENT = new Set(['synced_block', 'column_list', 'column']);
+
+/** Blocks whose children are quoted along with them. */
+const QUOTED = new Set(['quote', 'callout']);
+
+function indentLines(text: string, prefix: string): string {
+  return text.split('\n').map((l) => (l ? prefix + l : prefix.trimEnd())).join('\n');
+}
+
+/**
+ * Render a block tree. Consecutive numbered items are numbered 1, 2, 3...;
+ * children are indented under list items and toggles, quoted under quotes
+ * and callouts, and inlined for synced blocks and columns.
+ */
+export function blocksToMarkdown(blocks: NotionBlock[]): string {
+  const parts: string[] = [];
+  let number = 0;
+
+  for (const block of blocks) {
+    number = block.type === 'numbered_list_item' ? number + 1 : 0;
+    const own = blockToMarkdown(block, number);
+    const children = block.children?.length && !SELF_RENDERED.has(block.type)
+      ? blocksToMarkdown(block.children)
+      : '';
+
+    if (TRANSPARENT.has(block.type)) {
+      if (children) parts.push(children);
+      continue;
+    }
+
+    let rendered = own;
+    if (children) {
+      if (QUOTED.has(block.type)) {
+        rendered = [own, indentLines(children, '> ')].filter(Boolean).join('\n>\n');
+      } else if (block.type.startsWith('heading_')) {
+        // Toggleable headings: children follow the heading at the same level
+        rendered = [own, children].filter(Boolean).join('\n\n');
+      } else {
+        const width = block.type === 'numbered_list_item' ? `${number}. `.length : 2;
+        rendered = [own, indentLines(children, ' '.repeat(width))].filter(Boolean).join('\n');
+      }
+    }
+    if (rendered) parts.push(rendered);
+  }
+
+  // Keep list items tight; separate everything else with a blank line
+  let out = '';
+  parts.forEach((part, i) => {
+    if (i > 0) {
+      const isListItem = (s: string) => /^(- |\d+\. )/.test(s);
+      out += isListItem(parts[i - 1]) && isListItem(part) ? '\n' : '\n\n';
+    }
+    out += part;
+  });
+  return out;
+}
+
+/** Block types worth handing to an agent as files. */
+const ATTACHMENT_TYPES = new Set(['image', 'file', 'pdf']);
+
+/** Image, file and PDF blocks anywhere in the tree, in page order. */
+export function extractAttachments(blocks: NotionBlock[]): TicketAttachment[] {
+  const attachments: TicketAttachment[] = [];
+  for (const block of blocks) {
+    if (ATTACHMENT_TYPES.has(block.type)) {
+      const data = blockData(block);
+      const url = fileUrl(data);
+      if (url) {
+        attachments.push({ name: data.name || urlName(url), url });
+      }
+    }
+    if (block.children) attachments.push(...extractAttachments(block.children));
+  }
+  return attachments;
+}
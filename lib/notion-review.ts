@@ -0,0 +1,190 @@
+import type {
+  BlockObjectRequest,
+  BlockObjectRequestWithoutChildren,
+} from '@notionhq/client/build/src/api-endpoints.js';
+import type { ReviewOutput } from '../config.js';
+import { formatSpec, formatImpact } from './ticket-format.js';
+import { blocksToMarkdown, type NotionBlock } from './notion-markdown.js';
+
+// -- Review written as page blocks --
+//
+// Instead of packing the whole review into the Spec/Impact properties, the
+// review is written as a toggle heading at the end of the page, with
+// sub-headings for the spec, acceptance tests (as checkboxes), affected
+// files, risks and impact. The heading is how we find our own section again:
+// a re-review deletes it and appends a fresh one.
+
+export const REVIEW_SECTION_TITLE = '🤖 TicketToPR Review';
+
+const SPEC = 'Spec';
+const ACCEPTANCE_TESTS = 'Acceptance Tests';
+const AFFECTED_FILES = 'Affected Files';
+const RISKS = 'Risks';
+const IMPACT = 'Impact';
+
+/** Notion caps rich text at 2000 characters per segment and 100 segments per block. */
+const RICH_TEXT_LIMIT = 2000;
+
+/** Children per append request. */
+export const APPEND_BATCH_SIZE = 100;
+
+type RichTextRequest = { text: { content: string }; annotations?: { code?: boolean } };
+
+function richText(text: string, code = false): RichTextRequest[] {
+  const segments: RichTextRequest[] = [];
+  for (let i = 0; i < text.length; i += RICH_TEXT_LIMIT) {
+    segments.push({ text: { content: text.slice(i, i + RICH_TEXT_LIMIT) }, ...(code ? { annotations: { code: true } } : {}) });
+  }
+  return segments.slice(0, 100);
+}
+
+function heading(text: string): BlockObjectRequestWithoutChildren {
+  return { heading_3: { rich_text: richText(text) } };
+}
+
+/** Languages Notion accepts on a code block (the SDK doesn't export the union itself). */
+type CodeLanguage = Extract<BlockObjectRequest, { code: unknown }>['code']['language'];
+
+/** Fence tags → Notion code languages. Notion rejects unknown languages, so anything else is plain text. */
+const CODE_LANGUAGES: Record<string, CodeLanguage> = {
+  ts: 'typescript', tsx: 'typescript', typescript: 'typescript',
+  js: 'javascript', jsx: 'javascript', javascript: 'javascript',
+  json: 'json', sh: 'shell', shell: 'shell', bash: 'bash', zsh: 'shell',
+  py: 'python', python: 'python', sql: 'sql', yaml: 'yaml', yml: 'yaml',
+  html: 'html', css: 'css', go: 'go', rust: 'rust', ruby: 'ruby', java: 'java',
+  diff: 'diff', markdown: 'markdown', md: 'markdown', graphql: 'graphql',
+};
+
+function codeLanguage(tag: string): CodeLanguage {
+  return CODE_LANGUAGES[tag.toLowerCase()] ?? 'plain text';
+}
+
+/**
+ * Plain markdown from the review agent → blocks. Handles what specs
+ * actually contain — headings, bullets, numbered steps, checkboxes and code
+ * fences; anything else becomes a paragraph.
+ */
+export function markdownToBlocks(markdown: string): BlockObjectRequestWithoutChildren[] {
+  const blocks: BlockObjectRequestWithoutChildren[] = [];
+  const lines = markdown.split('\n');
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ paragraph: { rich_text: richText(paragraph.join('\n')) } });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^```(\w*)\s*$/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !/^```\s*$/.test(lines[i])) code.push(lines[i]);
+      blocks.push({ code: { rich_text: richText(code.join('\n')), language: codeLanguage(fence[1]) } });
+      continue;
+    }
+
+    let m: RegExpMatchArray | null;
+    if (!line.trim()) {
+      flush();
+    } else if ((m = line.match(/^#{1,6}\s+(.*)$/))) {
+      flush();
+      blocks.push(heading(m[1]));
+    } else if ((m = line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.*)$/))) {
+      flush();
+      blocks.push({ to_do: { rich_text: richText(m[2]), checked: m[1] !== ' ' } });
+    } else if ((m = line.match(/^\s*[-*]\s+(.*)$/))) {
+      flush();
+      blocks.push({ bulleted_list_item: { rich_text: richText(m[1]) } });
+    } else if ((m = line.match(/^\s*\d+[.)]\s+(.*)$/))) {
+      flush();
+      blocks.push({ numbered_list_item: { rich_text: richText(m[1]) } });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/** The blocks inside the review section, in order. */
+export function reviewSectionChildren(results: ReviewOutput): BlockObjectRequestWithoutChildren[] {
+  const children: BlockObjectRequestWithoutChildren[] = [
+    { paragraph: { rich_text: richText(`Ease: ${results.easeScore}/10 | Confidence: ${results.confidenceScore}/10`) } },
+    heading(SPEC),
+    ...markdownToBlocks(results.spec),
+  ];
+  if (results.testCases?.length) {
+    children.push(heading(ACCEPTANCE_TESTS), ...results.testCases.map((tc) => ({ to_do: { rich_text: richText(tc), checked: false } })));
+  }
+  if (results.affectedFiles.length > 0) {
+    children.push(heading(AFFECTED_FILES), ...results.affectedFiles.map((f) => ({ bulleted_list_item: { rich_text: richText(f, true) } })));
+  }
+  if (results.risks) {
+    children.push(heading(RISKS), ...markdownToBlocks(results.risks));
+  }
+  children.push(heading(IMPACT), ...markdownToBlocks(results.impactReport));
+  return children;
+}
+
+/** The toggle heading that holds the section, with as many children as fit in one request. */
+export function reviewSectionHeading(children: BlockObjectRequestWithoutChildren[]): BlockObjectRequest {
+  return {
+    heading_2: {
+      rich_text: richText(REVIEW_SECTION_TITLE),
+      is_toggleable: true,
+      children: children.slice(0, APPEND_BATCH_SIZE),
+    },
+  };
+}
+
+function plainText(block: NotionBlock): string {
+  const data = (block as Record<string, unknown>)[block.type] as { rich_text?: Array<{ plain_text: string }> } | undefined;
+  return (data?.rich_text ?? []).map((t) => t.plain_text).join('');
+}
+
+/** Top-level blocks that make up review sections we wrote (normally one). */
+export function findReviewSections(blocks: NotionBlock[]): NotionBlock[] {
+  return blocks.filter((b) => b.type === 'heading_2' && plainText(b) === REVIEW_SECTION_TITLE);
+}
+
+/**
+ * Rebuild the spec and impact text from a review section, in the same shape
+ * formatSpec/formatImpact produce from the property-based layout.
+ */
+export function parseReviewSection(section: NotionBlock): { spec: string; impact: string } {
+  const parts: Record<string, NotionBlock[]> = {};
+  let current = '';
+  for (const child of section.children ?? []) {
+    if (child.type === 'heading_3' && [SPEC, ACCEPTANCE_TESTS, AFFECTED_FILES, RISKS, IMPACT].includes(plainText(child))) {
+      current = plainText(child);
+      parts[current] = [];
+    } else if (current) {
+      parts[current].push(child);
+    }
+  }
+
+  const results: ReviewOutput = {
+    easeScore: 0,
+    confidenceScore: 0,
+    spec: blocksToMarkdown(parts[SPEC] ?? []),
+    impactReport: blocksToMarkdown(parts[IMPACT] ?? []),
+    affectedFiles: (parts[AFFECTED_FILES] ?? []).map(plainText).filter(Boolean),
+    risks: blocksToMarkdown(parts[RISKS] ?? []) || undefined,
+    testCases: (parts[ACCEPTANCE_TESTS] ?? []).map(plainText).filter(Boolean),
+  };
+  return { spec: formatSpec(results), impact: formatImpact(results) };
+}
+
+/** Short property values for board views when the full review lives in the page. */
+export function reviewSummary(results: ReviewOutput): { spec: string; impact: string } {
+  const firstParagraph = (text: string) => text.trim().split(/\n\s*\n/)[0] ?? '';
+  const clip = (text: string) => (text.length > 280 ? text.slice(0, 277) + '...' : text);
+  return {
+    spec: clip(firstParagraph(results.spec)),
+    impact: clip(`${results.affectedFiles.length} file(s)${results.risks ? ' · risks noted' : ''} — ${firstParagraph(results.impactReport)}`),
+  };
+}
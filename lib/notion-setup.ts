@@ -0,0 +1,95 @@
+import type { UpdateDatabaseParameters } from '@notionhq/client/build/src/api-endpoints.js';
+import { CONFIG } from '../config.js';
+import { propertyName, columnToStatus, type NotionProperty, type NotionSchema } from './notion.js';
+
+// -- `ticket-to-pr notion setup` --
+//
+// Compares a database's schema with what the pipeline expects and works out
+// what to add. Properties can be created through the API; Status options
+// cannot (Notion doesn't allow editing status properties), so those are
+// reported for the user to add by hand.
+
+type PropertyType = 'rich_text' | 'number' | 'url' | 'date';
+
+/** Properties the pipeline writes, and the type setup creates them as. */
+export const MANAGED_PROPERTIES: Array<{ name: NotionProperty; type: PropertyType; accepts?: string[] }> = [
+  { name: 'Spec', type: 'rich_text' },
+  { name: 'Impact', type: 'rich_text' },
+  { name: 'Ease', type: 'number' },
+  { name: 'Confidence', type: 'number' },
+  { name: 'Branch', type: 'rich_text' },
+  { name: 'Cost', type: 'rich_text' },
+  { name: 'PR URL', type: 'url', accepts: ['url', 'rich_text'] },
+  { name: 'PR Number', type: 'number' },
+  { name: 'PR Node ID', type: 'rich_text' },
+  { name: 'Reviewed At', type: 'date' },
+  { name: 'Executed At', type: 'date' },
+  { name: 'Failed At', type: 'date' },
+  { name: 'Testing At', type: 'date' },
+  { name: 'Done At', type: 'date' },
+  { name: 'Merged At', type: 'date' },
+  { name: 'Merged By', type: 'rich_text' },
+];
+
+/** The slice of a database property setup looks at. */
+export interface DatabaseProperty {
+  type: string;
+  status?: { options: Array<{ name: string }> };
+}
+
+export interface SetupPlan {
+  /** Properties already in place, by their name in the database. */
+  present: string[];
+  /** Properties to create: name in the database → type. */
+  create: Record<string, PropertyType>;
+  /** Properties that exist with a type the pipeline can't write. */
+  conflicts: Array<{ name: string; found: string; expected: string[] }>;
+  /** Set when the Status property is missing or isn't a Status property. */
+  statusProblem?: string;
+  /** Status options for pipeline columns that don't exist yet. */
+  missingStatusOptions: string[];
+}
+
+export function planNotionSetup(properties: Record<string, DatabaseProperty>, schema: NotionSchema = {}): SetupPlan {
+  const plan: SetupPlan = { present: [], create: {}, conflicts: [], missingStatusOptions: [] };
+
+  for (const managed of MANAGED_PROPERTIES) {
+    const name = propertyName(schema, managed.name);
+    const existing = properties[name];
+    const accepts = managed.accepts ?? [managed.type];
+    if (!existing) {
+      plan.create[name] = managed.type;
+    } else if (accepts.includes(existing.type)) {
+      plan.present.push(name);
+    } else {
+      plan.conflicts.push({ name, found: existing.type, expected: accepts });
+    }
+  }
+
+  const statusName = propertyName(schema, 'Status');
+  const status = properties[statusName];
+  if (!status) {
+    plan.statusProblem = `"${statusName}" property is missing`;
+  } else if (status.type !== 'status' || !status.status) {
+    plan.statusProblem = `"${statusName}" is a ${status.type} property, expected status`;
+  } else {
+    const options = status.status.options.map((o) => o.name);
+    plan.missingStatusOptions = Object.values(CONFIG.COLUMNS)
+      .map((column) => columnToStatus(column, schema))
+      .filter((option) => !options.includes(option));
+  }
+
+  return plan;
+}
+
+/** `properties` payload for databases.update that adds the planned properties. */
+export function setupUpdateProperties(plan: SetupPlan): NonNullable<UpdateDatabaseParameters['properties']> {
+  const properties: NonNullable<UpdateDatabaseParameters['properties']> = {};
+  for (const [name, type] of Object.entries(plan.create)) {
+    properties[name] = type === 'number' ? { number: { format: 'number' } }
+      : type === 'url' ? { url: {} }
+      : type === 'date' ? { date: {} }
+      : { rich_text: {} };
+  }
+  return properties;
+}
@@ -1,22 +1,78 @@
-import { Client } from '@notionhq/client';
+import { Client, collectPaginatedAPI, isFullBlock, isFullPage } from '@notionhq/client';
 import type {
   PageObjectResponse,
   BlockObjectResponse,
   RichTextItemResponse,
 } from '@notionhq/client/build/src/api-endpoints.js';
-import { CONFIG, type NotionTicket, type TicketDetails, type ReviewOutput } from '../config.js';
+import {
+  CONFIG,
+  type Ticket,
+  type TicketDetails,
+  type TicketComment,
+  type TicketDateField,
+  type TicketSource,
+  type PRMergeInfo,
+  type ReviewOutput,
+  type ExecutionResults,
+} from '../config.js';
+import { getNotionConfig, type NotionConfig } from './projects.js';
+import { formatSpec, formatImpact } from './ticket-format.js';
+import { blocksToMarkdown, extractAttachments, type NotionBlock } from './notion-markdown.js';
+import {
+  APPEND_BATCH_SIZE,
+  reviewSectionChildren,
+  reviewSectionHeading,
+  findReviewSections,
+  parseReviewSection,
+  reviewSummary,
+} from './notion-review.js';
+
+// -- Schema mapping --
+//
+// Every property the pipeline reads or writes is referred to by its default
+// name below. The `notion` section of projects.json can rename any of them
+// and map pipeline columns to differently-named Status options, so an
+// existing database can be used as-is.
+
+/** Default property names. Keys of `notion.properties` in projects.json. */
+export const NOTION_PROPERTIES = [
+  'Name', 'Status', 'Project', 'Description',
+  'Spec', 'Impact', 'Ease', 'Confidence',
+  'Branch', 'Cost', 'PR URL', 'PR Number', 'PR Node ID',
+  'Reviewed At', 'Executed At', 'Failed At', 'Testing At', 'Done At',
+  'Merged At', 'Merged By',
+] as const;
+
+export type NotionProperty = (typeof NOTION_PROPERTIES)[number];
+
+export interface NotionSchema {
+  /** Default property name → property name in this database. Unmapped properties keep their default name. */
+  properties?: Partial<Record<NotionProperty, string>>;
+  /** CONFIG.COLUMNS name → Status option in this database. Unmapped columns use the same name. */
+  columns?: Record<string, string>;
+  /** Project value on this board → projects.json name. Unmapped values are used as-is. */
+  projects?: Record<string, string>;
+  /** Project for tickets whose Project property is empty. */
+  project?: string;
+  /** Write the full review as a section of page blocks; Spec/Impact get a short summary. */
+  reviewBlocks?: boolean;
+}
 
-let _notion: Client | null = null;
+export function propertyName(schema: NotionSchema, name: NotionProperty): string {
+  return schema.properties?.[name] ?? name;
+}
 
-function notion(): Client {
-  if (!_notion) {
-    _notion = new Client({ auth: process.env.NOTION_TOKEN });
-  }
-  return _notion;
+/** Status option for a pipeline column. */
+export function columnToStatus(column: string, schema: NotionSchema = {}): string {
+  return schema.columns?.[column] ?? column;
 }
 
-function databaseId(): string {
-  return process.env.NOTION_DATABASE_ID!;
+/** Pipeline column for a Status option. Unmapped options pass through unchanged. */
+export function statusToColumn(status: string, schema: NotionSchema = {}): string {
+  for (const [column, option] of Object.entries(schema.columns ?? {})) {
+    if (option === status) return column;
+  }
+  return status;
 }
 
 // -- Helpers (exported for testing) --
@@ -29,9 +85,10 @@ function getProperty(page: PageObjectResponse, name: string): unknown {
   return (page.properties as Record<string, unknown>)[name];
 }
 
-function extractTitle(page: PageObjectResponse): string {
-  // Try 'Name' first (Notion default), then 'Title'
-  const prop = (getProperty(page, 'Name') ?? getProperty(page, 'Title')) as { title?: RichTextItemResponse[] } | undefined;
+function extractTitle(page: PageObjectResponse, schema: NotionSchema): string {
+  // Try 'Name' first (Notion default), then 'Title' — unless the title property is mapped
+  const mapped = schema.properties?.Name;
+  const prop = (mapped ? getProperty(page, mapped) : getProperty(page, 'Name') ?? getProperty(page, 'Title')) as { title?: RichTextItemResponse[] } | undefined;
   return prop?.title ? extractPlainText(prop.title) : '';
 }
 
@@ -40,24 +97,25 @@ function extractRichText(page: PageObjectResponse, name: string): string {
   return prop?.rich_text ? extractPlainText(prop.rich_text) : '';
 }
 
+/** A URL property, or rich text for boards that store links as text. */
+function extractUrl(page: PageObjectResponse, name: string): string {
+  const prop = getProperty(page, name) as { url?: string | null; rich_text?: RichTextItemResponse[] } | undefined;
+  return prop?.url ?? (prop?.rich_text ? extractPlainText(prop.rich_text) : '');
+}
+
 function extractNumber(page: PageObjectResponse, name: string): number | undefined {
   const prop = getProperty(page, name) as { number?: number | null } | undefined;
   return prop?.number ?? undefined;
 }
 
-function extractSelect(page: PageObjectResponse, name: string): string {
-  const prop = getProperty(page, name) as { select?: { name: string } | null } | undefined;
-  return prop?.select?.name ?? '';
+function extractStatus(page: PageObjectResponse, schema: NotionSchema): string {
+  const prop = getProperty(page, propertyName(schema, 'Status')) as { status?: { name: string } | null } | undefined;
+  return statusToColumn(prop?.status?.name ?? '', schema);
 }
 
-function extractStatus(page: PageObjectResponse): string {
-  const prop = getProperty(page, 'Status') as { status?: { name: string } | null } | undefined;
-  return prop?.status?.name ?? '';
-}
-
-export function extractProjectName(page: PageObjectResponse): string {
+export function extractProjectName(page: PageObjectResponse, schema: NotionSchema = {}): string {
   // Support both Select and Rich Text types for Project
-  const prop = getProperty(page, 'Project') as Record<string, unknown> | undefined;
+  const prop = getProperty(page, propertyName(schema, 'Project')) as Record<string, unknown> | undefined;
   if (!prop) return '';
   if (prop.type === 'select') {
     const sel = prop.select as { name: string } | null;
@@ -70,50 +128,48 @@ export function extractProjectName(page: PageObjectResponse): string {
   return '';
 }
 
-export function pageToTicket(page: PageObjectResponse): NotionTicket {
+/**
+ * Ticket summary for a page. `status` is the pipeline column and `project`
+ * the projects.json name, both translated through the schema.
+ */
+export function pageToTicket(page: PageObjectResponse, schema: NotionSchema = {}): Ticket {
+  const project = extractProjectName(page, schema);
   return {
     id: page.id,
-    title: extractTitle(page),
-    project: extractProjectName(page),
-    status: extractStatus(page),
+    title: extractTitle(page, schema),
+    project: project ? schema.projects?.[project] ?? project : schema.project ?? '',
+    status: extractStatus(page, schema),
   };
 }
 
-export function blockToMarkdown(block: BlockObjectResponse): string {
-  const type = block.type as string;
-  const data = (block as Record<string, unknown>)[type] as
-    | { rich_text?: RichTextItemResponse[] }
-    | undefined;
-  const text = data?.rich_text ? extractPlainText(data.rich_text) : '';
-
-  switch (type) {
-    case 'paragraph':
-      return text;
-    case 'heading_1':
-      return `# ${text}`;
-    case 'heading_2':
-      return `## ${text}`;
-    case 'heading_3':
-      return `### ${text}`;
-    case 'bulleted_list_item':
-      return `- ${text}`;
-    case 'numbered_list_item':
-      return `1. ${text}`;
-    case 'to_do': {
-      const todo = (block as Record<string, unknown>)[type] as { checked?: boolean };
-      return `- [${todo?.checked ? 'x' : ' '}] ${text}`;
-    }
-    case 'code': {
-      const code = (block as Record<string, unknown>)[type] as { language?: string };
-      return `\`\`\`${code?.language ?? ''}\n${text}\n\`\`\``;
+/** Blocks whose children are separate pages, not part of this ticket's body. */
+const SKIP_CHILDREN = new Set(['child_page', 'child_database', 'link_to_page']);
+
+/** Deepest nesting fetched — guards against runaway recursion on pathological pages. */
+const MAX_BLOCK_DEPTH = 8;
+
+/**
+ * Fetch a block's children recursively, following pagination at every level.
+ * `listChildren` must return every child of a block (all pages).
+ */
+export async function fetchBlockTree(
+  blockId: string,
+  listChildren: (blockId: string) => Promise<BlockObjectResponse[]>,
+  depth = 0,
+): Promise<NotionBlock[]> {
+  const blocks: NotionBlock[] = await listChildren(blockId);
+  if (depth + 1 >= MAX_BLOCK_DEPTH) return blocks;
+  // Sequential on purpose — Notion rate-limits to ~3 requests/second
+  for (const block of blocks) {
+    // A synced block copy has no content of its own — read the original's
+    const syncedFrom = block.type === 'synced_block' ? block.synced_block.synced_from : null;
+    if (syncedFrom) {
+      block.children = await fetchBlockTree(syncedFrom.block_id, listChildren, depth + 1);
+    } else if (block.has_children && !SKIP_CHILDREN.has(block.type)) {
+      block.children = await fetchBlockTree(block.id, listChildren, depth + 1);
     }
-    case 'quote':
-      return `> ${text}`;
-    case 'divider':
-      return '---';
-    default:
-      return text;
   }
+  return blocks;
 }
 
 function nowISO(): string {
@@ -124,261 +180,401 @@ function dateProperty(iso: string): { date: { start: string } } {
   return { date: { start: iso } };
 }
 
-/**
- * Set a date property on a page (best-effort — skips silently if property doesn't exist).
- */
-export async function trySetDate(pageId: string, propertyName: string): Promise<void> {
-  try {
-    await notion().pages.update({
-      page_id: pageId,
-      properties: { [propertyName]: dateProperty(nowISO()) },
-    });
-  } catch {
-    // Property might not exist yet — skip silently
-  }
-}
-
-// -- Exported Functions --
+const DATE_PROPERTIES: Record<TicketDateField, NotionProperty> = {
+  testingAt: 'Testing At',
+  doneAt: 'Done At',
+};
 
-/**
- * Fetch all tickets with a given status from the Notion database.
- */
-export async function fetchTicketsByStatus(status: string): Promise<NotionTicket[]> {
-  const response = await notion().databases.query({
-    database_id: databaseId(),
-    filter: {
-      property: 'Status',
-      status: { equals: status },
-    },
-  });
+// -- Ticket source --
 
-  return response.results
-    .filter((r): r is PageObjectResponse => 'properties' in r)
-    .map(pageToTicket);
+export interface NotionOptions {
+  token?: string;
+  databaseId?: string;
+  /** Property and column renames for this database. */
+  schema?: NotionSchema;
+  /** API base URL (for tests). */
+  baseUrl?: string;
 }
 
-/**
- * Read full ticket details including page body blocks.
- */
-export async function fetchTicketDetails(pageId: string): Promise<TicketDetails> {
-  const [page, blocksResponse] = await Promise.all([
-    notion().pages.retrieve({ page_id: pageId }) as Promise<PageObjectResponse>,
-    notion().blocks.children.list({ block_id: pageId, page_size: 100 }),
-  ]);
-
-  const blocks = blocksResponse.results.filter(
-    (b): b is BlockObjectResponse => 'type' in b,
-  );
-  const bodyBlocks = blocks.map(blockToMarkdown).filter(Boolean).join('\n\n');
-
-  const ticket = pageToTicket(page);
-  return {
-    ...ticket,
-    description: extractRichText(page, 'Description'),
-    bodyBlocks,
-    spec: extractRichText(page, 'Spec') || undefined,
-    impact: extractRichText(page, 'Impact') || undefined,
-    ease: extractNumber(page, 'Ease'),
-    confidence: extractNumber(page, 'Confidence'),
-  };
-}
+/** Notion-backed ticket source — the default board. */
+export function createNotionSource(options: NotionOptions = {}): TicketSource {
+  const databaseId = options.databaseId ?? process.env.NOTION_DATABASE_ID!;
+  const schema = options.schema ?? getNotionConfig();
+  const notion = new Client({ auth: options.token ?? process.env.NOTION_TOKEN, baseUrl: options.baseUrl });
+  const prop = (name: NotionProperty) => propertyName(schema, name);
 
-/**
- * Write review results back to the ticket properties.
- */
-export async function writeReviewResults(pageId: string, results: ReviewOutput): Promise<void> {
-  // Build spec content, appending test cases if present
-  let specContent = results.spec;
-  if (results.testCases && results.testCases.length > 0) {
-    specContent += '\n\n## Acceptance Tests\n' + results.testCases.map(tc => `- ${tc}`).join('\n');
+  function statusProperty(column: string) {
+    return { [prop('Status')]: { status: { name: columnToStatus(column, schema) } } };
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const properties: Record<string, any> = {
-    Ease: { number: results.easeScore },
-    Confidence: { number: results.confidenceScore },
-    Spec: {
-      rich_text: chunkRichText(specContent),
-    },
-    Impact: {
-      rich_text: chunkRichText(
-        `${results.impactReport}\n\nFiles: ${results.affectedFiles.join(', ')}${results.risks ? `\n\nRisks: ${results.risks}` : ''}`,
-      ),
-    },
-    'Reviewed At': dateProperty(nowISO()),
-  };
+  async function listAllChildren(blockId: string): Promise<BlockObjectResponse[]> {
+    const results = await collectPaginatedAPI(notion.blocks.children.list, { block_id: blockId, page_size: 100 });
+    return results.filter(isFullBlock);
+  }
 
-  try {
-    await notion().pages.update({ page_id: pageId, properties });
-  } catch (e) {
-    const errMsg = String(e);
-    // If a property doesn't exist yet, retry without it
-    if (errMsg.includes('Confidence')) {
-      delete properties.Confidence;
+  /**
+   * Update page properties, retrying without optional properties the
+   * database doesn't have (older boards lack the timestamp columns).
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function updateWithOptional(pageId: string, properties: Record<string, any>, optional: NotionProperty[]): Promise<void> {
+    try {
+      await notion.pages.update({ page_id: pageId, properties });
+    } catch (e) {
+      const errMsg = String(e);
+      const missing = optional.map(prop).filter((name) => name in properties && errMsg.includes(name));
+      if (missing.length === 0) throw e;
+      for (const name of missing) delete properties[name];
+      await notion.pages.update({ page_id: pageId, properties });
     }
-    if (errMsg.includes('Reviewed At')) {
-      delete properties['Reviewed At'];
+  }
+
+  /**
+   * Set a date property on a page (best-effort — skips silently if property doesn't exist).
+   */
+  async function trySetDate(pageId: string, field: TicketDateField): Promise<void> {
+    try {
+      await notion.pages.update({
+        page_id: pageId,
+        properties: { [prop(DATE_PROPERTIES[field])]: dateProperty(nowISO()) },
+      });
+    } catch {
+      // Property might not exist yet — skip silently
     }
-    if (errMsg.includes('Confidence') || errMsg.includes('Reviewed At')) {
-      await notion().pages.update({ page_id: pageId, properties });
-    } else {
-      throw e;
+  }
+
+  /**
+   * Record the PR merge (best-effort — older boards lack these properties).
+   */
+  async function writePRMerge(pageId: string, info: PRMergeInfo): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const properties: Record<string, any> = { [prop('Merged At')]: dateProperty(info.mergedAt) };
+    if (info.mergedBy) properties[prop('Merged By')] = { rich_text: [{ text: { content: info.mergedBy } }] };
+    try {
+      await updateWithOptional(pageId, properties, ['Merged At', 'Merged By']);
+    } catch {
+      // Property might not exist yet — skip silently
     }
   }
-}
 
-/**
- * Write execution results back to the ticket.
- */
-export async function writeExecutionResults(
-  pageId: string,
-  results: { branch: string; cost: number; prUrl?: string },
-): Promise<void> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const properties: Record<string, any> = {
-    Branch: {
-      rich_text: [{ text: { content: results.branch } }],
-    },
-    Cost: {
-      rich_text: [{ text: { content: `$${(Math.round(results.cost * 100) / 100).toFixed(2)}` } }],
-    },
-    'Executed At': dateProperty(nowISO()),
-  };
+  /**
+   * Fetch all tickets with a given status from the Notion database.
+   */
+  async function fetchTicketsByStatus(status: string): Promise<Ticket[]> {
+    const results = await collectPaginatedAPI(notion.databases.query, {
+      database_id: databaseId,
+      filter: {
+        property: prop('Status'),
+        status: { equals: columnToStatus(status, schema) },
+      },
+      page_size: 100,
+    });
 
-  if (results.prUrl) {
-    properties['PR URL'] = {
-      url: results.prUrl,
+    return results.filter(isFullPage).map((page) => pageToTicket(page, schema));
+  }
+
+  /**
+   * Read full ticket details including page body blocks.
+   */
+  async function fetchTicketDetails(pageId: string): Promise<TicketDetails> {
+    const [page, blocks] = await Promise.all([
+      notion.pages.retrieve({ page_id: pageId }) as Promise<PageObjectResponse>,
+      fetchBlockTree(pageId, listAllChildren),
+    ]);
+
+    // Our review section isn't part of the ticket body — when present it
+    // replaces the (summarized) Spec/Impact properties instead
+    const sections = findReviewSections(blocks);
+    const body = blocks.filter((b) => !sections.includes(b));
+    const review = sections.length > 0 ? parseReviewSection(sections[sections.length - 1]) : undefined;
+
+    const ticket = pageToTicket(page, schema);
+    return {
+      ...ticket,
+      description: extractRichText(page, prop('Description')),
+      bodyBlocks: blocksToMarkdown(body),
+      spec: review?.spec || extractRichText(page, prop('Spec')) || undefined,
+      impact: review?.impact || extractRichText(page, prop('Impact')) || undefined,
+      ease: extractNumber(page, prop('Ease')),
+      confidence: extractNumber(page, prop('Confidence')),
+      attachments: extractAttachments(body),
+      prUrl: extractUrl(page, prop('PR URL')) || undefined,
     };
   }
 
-  try {
-    await notion().pages.update({ page_id: pageId, properties });
-  } catch (e) {
-    const errMsg = String(e);
-    if (errMsg.includes('Executed At')) {
-      delete properties['Executed At'];
-      await notion().pages.update({ page_id: pageId, properties });
-    } else {
-      throw e;
+  /**
+   * Replace the review section at the end of the page: delete any section
+   * from an earlier review, then append the new one (in batches — Notion
+   * takes at most 100 children per request).
+   */
+  async function writeReviewSection(pageId: string, results: ReviewOutput): Promise<void> {
+    for (const section of findReviewSections(await listAllChildren(pageId))) {
+      await notion.blocks.delete({ block_id: section.id });
+    }
+
+    const children = reviewSectionChildren(results);
+    const appended = await notion.blocks.children.append({ block_id: pageId, children: [reviewSectionHeading(children)] });
+    const headingId = appended.results[0]?.id;
+    for (let i = APPEND_BATCH_SIZE; headingId && i < children.length; i += APPEND_BATCH_SIZE) {
+      await notion.blocks.children.append({ block_id: headingId, children: children.slice(i, i + APPEND_BATCH_SIZE) });
     }
   }
-}
 
-/**
- * Move a ticket to a new status column.
- */
-export async function moveTicketStatus(pageId: string, newStatus: string): Promise<void> {
-  await notion().pages.update({
-    page_id: pageId,
-    properties: {
-      Status: { status: { name: newStatus } },
-    },
-  });
-}
+  /**
+   * Write review results back to the ticket properties — or, with
+   * `reviewBlocks`, into the page with a short summary in the properties.
+   */
+  async function writeReviewResults(pageId: string, results: ReviewOutput): Promise<void> {
+    if (schema.reviewBlocks) await writeReviewSection(pageId, results);
+
+    const text = schema.reviewBlocks
+      ? reviewSummary(results)
+      : { spec: formatSpec(results), impact: formatImpact(results) };
+    await updateWithOptional(pageId, {
+      [prop('Ease')]: { number: results.easeScore },
+      [prop('Confidence')]: { number: results.confidenceScore },
+      [prop('Spec')]: {
+        rich_text: chunkRichText(text.spec),
+      },
+      [prop('Impact')]: {
+        rich_text: chunkRichText(text.impact),
+      },
+      [prop('Reviewed At')]: dateProperty(nowISO()),
+    }, ['Confidence', 'Reviewed At']);
+  }
 
-/**
- * Write error details and move ticket to Failed.
- */
-export async function writeFailure(pageId: string, error: string): Promise<void> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const properties: Record<string, any> = {
-    Status: { status: { name: CONFIG.COLUMNS.FAILED } },
-    Impact: {
-      rich_text: chunkRichText(`ERROR: ${error}`),
-    },
-    'Failed At': dateProperty(nowISO()),
-  };
+  /**
+   * Write execution results back to the ticket.
+   */
+  async function writeExecutionResults(pageId: string, results: ExecutionResults): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const properties: Record<string, any> = {
+      [prop('Branch')]: {
+        rich_text: [{ text: { content: results.branch } }],
+      },
+      [prop('Cost')]: {
+        rich_text: [{ text: { content: `$${(Math.round(results.cost * 100) / 100).toFixed(2)}` } }],
+      },
+      [prop('Executed At')]: dateProperty(nowISO()),
+    };
 
-  try {
-    await notion().pages.update({ page_id: pageId, properties });
-  } catch (e) {
-    const errMsg = String(e);
-    if (errMsg.includes('Failed At')) {
-      delete properties['Failed At'];
-      await notion().pages.update({ page_id: pageId, properties });
-    } else {
-      throw e;
+    if (results.prUrl) {
+      properties[prop('PR URL')] = {
+        url: results.prUrl,
+      };
     }
+    if (results.prNumber) properties[prop('PR Number')] = { number: results.prNumber };
+    if (results.prNodeId) properties[prop('PR Node ID')] = { rich_text: [{ text: { content: results.prNodeId } }] };
+
+    await updateWithOptional(pageId, properties, ['Executed At', 'PR Number', 'PR Node ID']);
   }
-}
 
-/**
- * Add a comment to a Notion page (best-effort).
- * Used for agent audit trail - does not throw if it fails.
- */
-export async function addComment(pageId: string, text: string): Promise<void> {
-  try {
-    await notion().comments.create({
-      parent: { page_id: pageId },
-      rich_text: [{ text: { content: text } }],
+  /**
+   * Move a ticket to a new status column.
+   */
+  async function moveTicketStatus(pageId: string, newStatus: string): Promise<void> {
+    await notion.pages.update({
+      page_id: pageId,
+      properties: statusProperty(newStatus),
     });
-  } catch (e) {
-    // Best-effort: log but don't throw
-    console.warn(`[NOTION] Failed to add comment to ${pageId}:`, e);
   }
-}
 
-/**
- * Fetch all comments on a Notion page.
- * Returns human comments (filters out bot-authored comments from this integration).
- */
-export async function fetchComments(pageId: string): Promise<Array<{ author: string; text: string; createdTime: string }>> {
-  try {
-    const response = await notion().comments.list({ block_id: pageId });
-    const comments: Array<{ author: string; text: string; createdTime: string }> = [];
-
-    for (const comment of response.results) {
-      // Skip bot-authored comments (our own audit trail)
-      const createdBy = comment.created_by as { type?: string; name?: string; id?: string };
-      if (createdBy?.type === 'bot') continue;
-
-      const text = 'rich_text' in comment
-        ? extractPlainText(comment.rich_text as RichTextItemResponse[])
-        : '';
-
-      if (!text.trim()) continue;
-
-      comments.push({
-        author: createdBy?.name || 'Unknown',
-        text: text.trim(),
-        createdTime: comment.created_time,
+  /**
+   * Write error details and move ticket to Failed.
+   */
+  async function writeFailure(pageId: string, error: string): Promise<void> {
+    await updateWithOptional(pageId, {
+      ...statusProperty(CONFIG.COLUMNS.FAILED),
+      [prop('Impact')]: {
+        rich_text: chunkRichText(`ERROR: ${error}`),
+      },
+      [prop('Failed At')]: dateProperty(nowISO()),
+    }, ['Failed At']);
+  }
+
+  /**
+   * Add a comment to a Notion page (best-effort).
+   * Used for agent audit trail - does not throw if it fails.
+   */
+  async function addComment(pageId: string, text: string): Promise<void> {
+    try {
+      await notion.comments.create({
+        parent: { page_id: pageId },
+        rich_text: [{ text: { content: text } }],
       });
+    } catch (e) {
+      // Best-effort: log but don't throw
+      console.warn(`[NOTION] Failed to add comment to ${pageId}:`, e);
     }
+  }
 
-    return comments;
-  } catch (e) {
-    console.warn(`[NOTION] Failed to fetch comments for ${pageId}:`, e);
-    return [];
+  /**
+   * Fetch all comments on a Notion page.
+   * Returns human comments (filters out bot-authored comments from this integration).
+   */
+  async function fetchComments(pageId: string): Promise<TicketComment[]> {
+    try {
+      const results = await collectPaginatedAPI(notion.comments.list, { block_id: pageId });
+      const comments: TicketComment[] = [];
+
+      for (const comment of results) {
+        // Skip bot-authored comments (our own audit trail)
+        const createdBy = comment.created_by as { type?: string; name?: string; id?: string };
+        if (createdBy?.type === 'bot') continue;
+
+        const text = 'rich_text' in comment
+          ? extractPlainText(comment.rich_text as RichTextItemResponse[])
+          : '';
+
+        if (!text.trim()) continue;
+
+        comments.push({
+          author: createdBy?.name || 'Unknown',
+          text: text.trim(),
+          createdTime: comment.created_time,
+        });
+      }
+
+      return comments;
+    } catch (e) {
+      console.warn(`[NOTION] Failed to fetch comments for ${pageId}:`, e);
+      return [];
+    }
   }
+
+  /**
+   * Check if a ticket already has a specific bot marker comment.
+   * Used for cross-session deduplication.
+   */
+  async function hasBotMarker(pageId: string, marker: string): Promise<boolean> {
+    try {
+      const results = await collectPaginatedAPI(notion.comments.list, { block_id: pageId });
+      for (const comment of results) {
+        const createdBy = comment.created_by as { type?: string };
+        if (createdBy?.type !== 'bot') continue;
+        const text = 'rich_text' in comment
+          ? extractPlainText(comment.rich_text as RichTextItemResponse[])
+          : '';
+        if (text.includes(marker)) return true;
+      }
+      return false;
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    name: 'Notion',
+    fetchTicketsByStatus,
+    fetchTicketDetails,
+    writeReviewResults,
+    writeExecutionResults,
+    moveTicketStatus,
+    writeFailure,
+    addComment,
+    fetchComments,
+    hasFeedbackMarker: (pageId) => hasBotMarker(pageId, 'Feedback processed'),
+    hasTestingMarker: (pageId) => hasBotMarker(pageId, 'Ready for Testing'),
+    trySetDate,
+    writePRMerge,
+    ticketUrl: (pageId) => `https://www.notion.so/${pageId.replace(/-/g, '')}`,
+  };
+}
+
+// -- Multiple databases --
+
+export interface NotionDatabase {
+  id: string;
+  /** Label for logs. */
+  name: string;
+  schema: NotionSchema;
+}
+
+/** Notion ids with and without dashes refer to the same object. */
+export function sameNotionId(a: string, b: string): boolean {
+  return a.replace(/-/g, '').toLowerCase() === b.replace(/-/g, '').toLowerCase();
 }
 
 /**
- * Check if a ticket already has a specific bot marker comment.
- * Used for cross-session deduplication.
+ * Databases to watch: `notion.databases` from projects.json, each with the
+ * shared mappings merged under its own, or else the single NOTION_DATABASE_ID.
  */
-async function hasBotMarker(pageId: string, marker: string): Promise<boolean> {
-  try {
-    const response = await notion().comments.list({ block_id: pageId });
-    for (const comment of response.results) {
-      const createdBy = comment.created_by as { type?: string };
-      if (createdBy?.type !== 'bot') continue;
-      const text = 'rich_text' in comment
-        ? extractPlainText(comment.rich_text as RichTextItemResponse[])
-        : '';
-      if (text.includes(marker)) return true;
-    }
-    return false;
-  } catch {
-    return false;
+export function getNotionDatabases(config: NotionConfig = getNotionConfig()): NotionDatabase[] {
+  if (config.databases?.length) {
+    return config.databases.map((db) => ({
+      id: db.id,
+      name: db.name ?? db.id,
+      schema: {
+        properties: { ...config.properties, ...db.properties },
+        columns: { ...config.columns, ...db.columns },
+        projects: db.projects,
+        project: db.project,
+        reviewBlocks: db.reviewBlocks ?? config.reviewBlocks,
+      },
+    }));
   }
+  const id = process.env.NOTION_DATABASE_ID;
+  return id ? [{ id, name: id, schema: { properties: config.properties, columns: config.columns, reviewBlocks: config.reviewBlocks } }] : [];
 }
 
-export function hasFeedbackMarker(pageId: string): Promise<boolean> {
-  return hasBotMarker(pageId, 'Feedback processed');
-}
+/**
+ * One ticket source over several databases. Listing fans out to every
+ * database (one after another — they share the integration's rate limit)
+ * and remembers where each page came from; everything else is routed to the
+ * page's own database so its property and column mapping applies.
+ */
+export function createNotionBoardSource(
+  databases: NotionDatabase[] = getNotionDatabases(),
+  options: Pick<NotionOptions, 'token' | 'baseUrl'> = {},
+): TicketSource {
+  if (databases.length <= 1) {
+    const db = databases[0];
+    return createNotionSource({ ...options, databaseId: db?.id, schema: db?.schema });
+  }
 
-export function hasTestingMarker(pageId: string): Promise<boolean> {
-  return hasBotMarker(pageId, 'Ready for Testing');
+  const boards = databases.map((db) => ({ db, source: createNotionSource({ ...options, databaseId: db.id, schema: db.schema }) }));
+  const notion = new Client({ auth: options.token ?? process.env.NOTION_TOKEN, baseUrl: options.baseUrl });
+  const owners = new Map<string, TicketSource>();
+
+  async function sourceFor(pageId: string): Promise<TicketSource> {
+    const known = owners.get(pageId);
+    if (known) return known;
+    const page = await notion.pages.retrieve({ page_id: pageId }) as PageObjectResponse;
+    const parentId = page.parent.type === 'database_id' ? page.parent.database_id : '';
+    const board = boards.find((b) => sameNotionId(b.db.id, parentId));
+    if (!board) {
+      throw new Error(`Page ${pageId} is not in any configured Notion database (${databases.map((d) => d.name).join(', ')})`);
+    }
+    owners.set(pageId, board.source);
+    return board.source;
+  }
+
+  return {
+    name: 'Notion',
+    async fetchTicketsByStatus(status) {
+      const tickets: Ticket[] = [];
+      for (const { source } of boards) {
+        for (const ticket of await source.fetchTicketsByStatus(status)) {
+          owners.set(ticket.id, source);
+          tickets.push(ticket);
+        }
+      }
+      return tickets;
+    },
+    fetchTicketDetails: async (id) => (await sourceFor(id)).fetchTicketDetails(id),
+    writeReviewResults: async (id, results) => (await sourceFor(id)).writeReviewResults(id, results),
+    writeExecutionResults: async (id, results) => (await sourceFor(id)).writeExecutionResults(id, results),
+    moveTicketStatus: async (id, status) => (await sourceFor(id)).moveTicketStatus(id, status),
+    writeFailure: async (id, error) => (await sourceFor(id)).writeFailure(id, error),
+    // Comments don't depend on the schema — any board can handle them
+    addComment: (id, text) => boards[0].source.addComment(id, text),
+    fetchComments: (id) => boards[0].source.fetchComments(id),
+    hasFeedbackMarker: (id) => boards[0].source.hasFeedbackMarker(id),
+    hasTestingMarker: (id) => boards[0].source.hasTestingMarker(id),
+    trySetDate: async (id, field) => (await sourceFor(id)).trySetDate(id, field),
+    writePRMerge: async (id, info) => (await sourceFor(id)).writePRMerge(id, info),
+    ticketUrl: (id) => boards[0].source.ticketUrl(id),
+  };
 }
 
 export function truncate(str: string, maxLen: number): string {
@@ -0,0 +1,105 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// -- Pull request bodies --
+//
+// The body is built from the reviewed ticket. With `pr.useTemplate` the
+// repo's own pull request template is the skeleton: its sections stay in
+// place (checklists included) and the ticket content goes under the
+// headings that ask for it.
+
+export interface PullRequestBodyParts {
+  summary: string;
+  impact: string;
+  /** Heading and markdown link back to the ticket (e.g. "Notion Ticket", "[View in Notion](...)"). */
+  ticket: { heading: string; link: string };
+  /** Results of the validation stages (markdown), when the project has any. */
+  validation?: string;
+  /** Cost and review scores, always last. */
+  footer: string;
+}
+
+/** Where GitHub and GitLab look for a default template, in lookup order. */
+export const PR_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+  '.gitlab/merge_request_templates/Default.md',
+];
+
+/** Contents of the repo's pull request template, or null if it has none. */
+export function findPullRequestTemplate(repoDir: string): string | null {
+  for (const path of PR_TEMPLATE_PATHS) {
+    const full = join(repoDir, path);
+    if (existsSync(full)) return readFileSync(full, 'utf-8');
+  }
+  return null;
+}
+
+// Template headings that ask for each part. Summary and ticket match whole
+// leading words so "Types of changes" or "What type of PR is this?" stay empty.
+const SUMMARY_HEADING = /^(summary|description|overview)\b/i;
+const IMPACT_HEADING = /impact|risk/i;
+const TICKET_HEADING = /^((related|linked) )?(issues?|tickets?)\b/i;
+const VALIDATION_HEADING = /test|validation|verif/i;
+
+const HEADING_LINE = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+function defaultBody(parts: PullRequestBodyParts): string {
+  return [
+    '## Summary',
+    '',
+    parts.summary,
+    '',
+    '## Impact',
+    '',
+    parts.impact,
+    '',
+    `## ${parts.ticket.heading}`,
+    '',
+    parts.ticket.link,
+    '',
+    ...(parts.validation ? ['## Validation', '', parts.validation, ''] : []),
+    '---',
+    parts.footer,
+  ].join('\n');
+}
+
+/**
+ * Render the body of a ticket's pull request. Without a template this is
+ * Summary / Impact / Ticket (and Validation, when stages ran). With one,
+ * each part is inserted under the first template heading that matches it;
+ * parts with no matching heading are added as their own sections (summary
+ * first, the rest at the end).
+ */
+export function renderPullRequestBody(parts: PullRequestBodyParts, template?: string | null): string {
+  if (!template?.trim()) return defaultBody(parts);
+
+  const pending = [
+    { pattern: SUMMARY_HEADING, heading: 'Summary', content: parts.summary },
+    { pattern: IMPACT_HEADING, heading: 'Impact', content: parts.impact },
+    { pattern: TICKET_HEADING, heading: parts.ticket.heading, content: parts.ticket.link },
+    ...(parts.validation ? [{ pattern: VALIDATION_HEADING, heading: 'Validation', content: parts.validation }] : []),
+  ];
+  const placed = new Set<number>();
+
+  const lines: string[] = [];
+  for (const line of template.trimEnd().split('\n')) {
+    lines.push(line);
+    const heading = line.match(HEADING_LINE);
+    if (!heading) continue;
+    const index = pending.findIndex((part, i) => !placed.has(i) && part.pattern.test(heading[1]));
+    if (index === -1) continue;
+    placed.add(index);
+    lines.push('', pending[index].content);
+  }
+
+  const section = (i: number) => `## ${pending[i].heading}\n\n${pending[i].content}`;
+  const before = placed.has(0) ? [] : [section(0)];
+  const after = pending.map((_, i) => i).filter((i) => i > 0 && !placed.has(i)).map(section);
+
+  return [...before, lines.join('\n'), ...after, `---\n${parts.footer}`].join('\n\n');
+}
@@ -0,0 +1,37 @@
+import type { ReviewThread } from './git-host.js';
+
+// -- PR review follow-ups --
+//
+// With `pr.addressReviews`, unresolved review threads on a PR Ready ticket's
+// PR are handed back to the execute agent. Every reply TicketToPR posts ends
+// with a hidden marker: a thread whose last comment carries it is waiting on
+// the reviewer, so it isn't picked up again until a human answers.
+
+export const REPLY_MARKER = '<!-- ticket-to-pr -->';
+
+/** Threads whose latest comment is from a human. */
+export function pendingReviewThreads(threads: ReviewThread[]): ReviewThread[] {
+  return threads.filter((t) => {
+    const last = t.comments[t.comments.length - 1];
+    return last !== undefined && !last.body.includes(REPLY_MARKER);
+  });
+}
+
+/** Prompt section listing the threads, each under the id the agent replies with. */
+export function formatReviewThreads(threads: ReviewThread[]): string[] {
+  const lines = ['## Review Threads'];
+  for (const thread of threads) {
+    const location = thread.path ? ` — \`${thread.path}${thread.line ? `:${thread.line}` : ''}\`` : '';
+    lines.push('', `### Thread ${thread.id}${location}`);
+    for (const comment of thread.comments) {
+      lines.push('', `**${comment.author}**:`, comment.body.replace(REPLY_MARKER, '').trim());
+    }
+  }
+  return lines;
+}
+
+/** Reply body with the marker appended. */
+export function formatReviewReply(text: string, commit?: string): string {
+  const body = commit ? `${text.trim()}\n\n_Commit: ${commit}_` : text.trim();
+  return `${body}\n\n${REPLY_MARKER}`;
+}
@@ -0,0 +1,32 @@
+import { CONFIG, type PRMergeInfo } from '../config.js';
+import type { PRStatus } from './git-host.js';
+
+// -- PR status sync --
+//
+// Tickets stop moving once their PR is open: people merge on GitHub and
+// forget the board. The orchestrator periodically looks up the PR of every
+// PR Ready / Testing ticket and moves the ticket to match.
+
+/** Where a ticket goes when its PR is closed without merging. */
+export type PRClosedAction = 'execute' | 'failed';
+
+export type PRSyncAction =
+  | { kind: 'none' }
+  | { kind: 'merged'; moveTo?: string; merge: PRMergeInfo }
+  | { kind: 'closed'; moveTo: string };
+
+/**
+ * What to do with a ticket in `column` given its PR. Merged PRs move PR
+ * Ready tickets to Testing (tickets already in Testing only get the merge
+ * recorded); PRs closed unmerged send the ticket back to Execute for another
+ * attempt, or to Failed.
+ */
+export function prSyncAction(column: string, pr: PRStatus, onClosed: PRClosedAction = 'failed'): PRSyncAction {
+  if (pr.state === 'merged' && pr.merge) {
+    return { kind: 'merged', moveTo: column === CONFIG.COLUMNS.PR_READY ? CONFIG.COLUMNS.TESTING : undefined, merge: pr.merge };
+  }
+  if (pr.state === 'closed') {
+    return { kind: 'closed', moveTo: onClosed === 'execute' ? CONFIG.COLUMNS.EXECUTE : CONFIG.COLUMNS.FAILED };
+  }
+  return { kind: 'none' };
+}
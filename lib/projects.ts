@@ -7,15 +7,99 @@ const PROJECTS_PATH = join(CONFIG_DIR, 'projects.json');
 interface ProjectEntry {
   directory: string;
   buildCommand?: string;
+  /** Ordered validation stages — replaces buildCommand when set. */
+  validate?: ValidationStageConfig[];
   baseBranch?: string;
   blockedFiles?: string[];
   skipPR?: boolean;
   devAccess?: boolean;
   envFile?: string;
+  /** Column a ticket returns to when its PR is closed without merging. */
+  onPRClosed?: 'execute' | 'failed';
+  /** Where pull requests are opened: "github" (default) or "gitlab". */
+  gitHost?: string;
+  /** Git remote to fetch from and push to (default "origin"). */
+  remote?: string;
+  /** Settings for the pull requests opened for this project. */
+  pr?: PullRequestConfig;
+  /** Wait for the PR's CI checks and let an agent repair failures. */
+  watchCI?: boolean;
+  /** Run in each fresh worktree before the agent starts (e.g. "npm ci"). */
+  setupCommand?: string;
+  /** Dependency directories reused from the main checkout instead of installed per worktree. */
+  dependencyCache?: DependencyCacheConfig;
+}
+
+export interface DependencyCacheConfig {
+  /** Paths relative to the project directory (e.g. "node_modules", ".venv"). */
+  paths: string[];
+  /** "symlink" (default) shares the directory; "hardlink" gives the worktree its own copy without duplicating file contents. */
+  strategy?: 'symlink' | 'hardlink';
+}
+
+export interface ValidationStageConfig {
+  /** Shown in logs, ticket comments and the PR body (e.g. "typecheck"). */
+  name: string;
+  command: string;
+  /** Seconds before the command is killed (default 120). */
+  timeout?: number;
+  /** Required stages gate the push; advisory ones (false) only warn. Default true. */
+  required?: boolean;
+}
+
+export interface PullRequestConfig {
+  /** Open pull requests as drafts. */
+  draft?: boolean;
+  /** Usernames to request reviews from. */
+  reviewers?: string[];
+  /** Team slugs to request reviews from (GitHub only). */
+  teamReviewers?: string[];
+  labels?: string[];
+  /** Usernames to assign. */
+  assignees?: string[];
+  /** Build the body from the repo's pull request template. */
+  useTemplate?: boolean;
+  /** Hand unresolved review threads back to the agent and push the fixes. */
+  addressReviews?: boolean;
+}
+
+export interface LinearConfig {
+  /** Team key (e.g. "ENG") — overrides LINEAR_TEAM. */
+  team?: string;
+  /** CONFIG.COLUMNS name → Linear workflow state name. Unmapped columns use the same name. */
+  states?: Record<string, string>;
+}
+
+export interface NotionConfig {
+  /** Default property name (e.g. "Status") → property name in the database (e.g. "Stage"). */
+  properties?: Record<string, string>;
+  /** CONFIG.COLUMNS name → Status option in the database. Unmapped columns use the same name. */
+  columns?: Record<string, string>;
+  /** Databases to watch — replaces NOTION_DATABASE_ID. `properties`/`columns` above apply to all of them. */
+  databases?: NotionDatabaseConfig[];
+  /** Write reviews as a section of page blocks instead of into the Spec/Impact properties. */
+  reviewBlocks?: boolean;
+}
+
+export interface NotionDatabaseConfig {
+  id: string;
+  /** Label for logs (defaults to the id). */
+  name?: string;
+  /** Per-database overrides, merged over the shared mappings. */
+  properties?: Record<string, string>;
+  columns?: Record<string, string>;
+  /** Project value on this board → projects.json name. Unmapped values are used as-is. */
+  projects?: Record<string, string>;
+  /** Project for tickets with an empty Project property (e.g. a single-repo team board). */
+  project?: string;
+  /** Overrides the shared `reviewBlocks`. */
+  reviewBlocks?: boolean;
 }
 
 interface ProjectsFile {
   projects: Record<string, ProjectEntry>;
+  linear?: LinearConfig;
+  notion?: NotionConfig;
 }
 
 let cache: ProjectsFile | null = null;
@@ -43,6 +127,21 @@ export function getBuildCommand(name: string): string | undefined {
   return load().projects[name]?.buildCommand;
 }
 
+/**
+ * Validation stages for a project, defaults applied. A project with only a
+ * buildCommand gets a single required "build" stage.
+ */
+export function getValidationStages(name: string): Required<ValidationStageConfig>[] {
+  const project = load().projects[name];
+  const stages = project?.validate ?? (project?.buildCommand ? [{ name: 'build', command: project.buildCommand }] : []);
+  return stages.map((stage) => ({
+    name: stage.name,
+    command: stage.command,
+    timeout: stage.timeout ?? 120,
+    required: stage.required ?? true,
+  }));
+}
+
 export function getBaseBranch(name: string): string | undefined {
   return load().projects[name]?.baseBranch;
 }
@@ -63,6 +162,44 @@ export function getEnvFile(name: string): string | undefined {
   return load().projects[name]?.envFile;
 }
 
+export function getOnPRClosed(name: string): 'execute' | 'failed' {
+  return load().projects[name]?.onPRClosed ?? 'failed';
+}
+
+export function getGitHostName(name: string): string {
+  return load().projects[name]?.gitHost ?? 'github';
+}
+
+export function getRemote(name: string): string {
+  return load().projects[name]?.remote ?? 'origin';
+}
+
+export function getWatchCI(name: string): boolean {
+  return load().projects[name]?.watchCI ?? false;
+}
+
+export function getSetupCommand(name: string): string | undefined {
+  return load().projects[name]?.setupCommand;
+}
+
+export function getDependencyCache(name: string): Required<DependencyCacheConfig> {
+  const cache = load().projects[name]?.dependencyCache;
+  return { paths: cache?.paths ?? [], strategy: cache?.strategy ?? 'symlink' };
+}
+
+export function getPullRequestConfig(name: string): Required<PullRequestConfig> {
+  const pr = load().projects[name]?.pr ?? {};
+  return {
+    draft: pr.draft ?? false,
+    reviewers: pr.reviewers ?? [],
+    teamReviewers: pr.teamReviewers ?? [],
+    labels: pr.labels ?? [],
+    assignees: pr.assignees ?? [],
+    useTemplate: pr.useTemplate ?? false,
+    addressReviews: pr.addressReviews ?? false,
+  };
+}
+
 export function getAllProjects(): Record<string, string> {
   const data = load();
   const result: Record<string, string> = {};
@@ -72,6 +209,14 @@ export function getAllProjects(): Record<string, string> {
   return result;
 }
 
+export function getLinearConfig(): LinearConfig {
+  return load().linear ?? {};
+}
+
+export function getNotionConfig(): NotionConfig {
+  return load().notion ?? {};
+}
+
 /** Reset the in-memory cache (for tests). */
 export function _resetCache(): void {
   cache = null;
@@ -0,0 +1,51 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ReviewOutput, TicketSource } from '../config.js';
+import { CONFIG_DIR } from './paths.js';
+
+// -- Stored review output --
+//
+// Trackers hold the review as prose (properties, a page section, a
+// comment), so the affected files, risks and test cases can't be read back
+// reliably. The full ReviewOutput is also kept as JSON, one file per ticket
+// under .ticket-to-pr/reviews, and ticket sources are wrapped so
+// writeReviewResults saves it and fetchTicketDetails returns it.
+
+const REVIEWS_DIR = join(CONFIG_DIR, '.ticket-to-pr', 'reviews');
+
+function reviewPath(ticketId: string, dir: string): string {
+  return join(dir, `${ticketId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+}
+
+export function saveReview(ticketId: string, results: ReviewOutput, dir = REVIEWS_DIR): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(reviewPath(ticketId, dir), JSON.stringify(results, null, 2) + '\n');
+}
+
+/** The stored review for a ticket, or undefined if it has none (or the file is unreadable). */
+export function loadReview(ticketId: string, dir = REVIEWS_DIR): ReviewOutput | undefined {
+  const path = reviewPath(ticketId, dir);
+  if (!existsSync(path)) return undefined;
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8')) as ReviewOutput;
+    return Array.isArray(parsed.affectedFiles) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Wrap a ticket source so reviews are stored locally and attached to ticket details. */
+export function withStoredReviews(source: TicketSource, dir = REVIEWS_DIR): TicketSource {
+  return {
+    ...source,
+    async fetchTicketDetails(ticketId) {
+      const details = await source.fetchTicketDetails(ticketId);
+      const review = loadReview(ticketId, dir);
+      return review ? { ...details, review } : details;
+    },
+    async writeReviewResults(ticketId, results) {
+      await source.writeReviewResults(ticketId, results);
+      saveReview(ticketId, results, dir);
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import type { ReviewOutput } from '../config.js';
+
+// -- Shared text formats for ticket backends --
+
+/** Spec text as stored on a ticket: the spec plus its acceptance tests. */
+export function formatSpec(results: ReviewOutput): string {
+  let specContent = results.spec;
+  if (results.testCases && results.testCases.length > 0) {
+    specContent += '\n\n## Acceptance Tests\n' + results.testCases.map(tc => `- ${tc}`).join('\n');
+  }
+  return specContent;
+}
+
+/** Impact text as stored on a ticket: the report, affected files and risks. */
+export function formatImpact(results: ReviewOutput): string {
+  return `${results.impactReport}\n\nFiles: ${results.affectedFiles.join(', ')}${results.risks ? `\n\nRisks: ${results.risks}` : ''}`;
+}
+
+/** Lowercase, dash-separated form of a column name ("PR Ready" → "pr-ready"). */
+export function columnSlug(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// -- Comment-backed review results (trackers without custom fields) --
+
+/** Hidden tag on every comment we post, so our own comments can be told apart from humans'. */
+export const BOT_TAG = '<!-- ttp -->';
+
+const REVIEW_TAG = '<!-- ttp:review -->';
+const SPEC_TAG = '<!-- ttp:spec -->';
+const IMPACT_TAG = '<!-- ttp:impact -->';
+const FAILURE_TAG = '<!-- ttp:failure -->';
+
+export function isBotComment(body: string): boolean {
+  return body.includes(BOT_TAG);
+}
+
+/** Tag a comment body as ours. */
+export function tagComment(text: string): string {
+  return `${text}\n\n${BOT_TAG}`;
+}
+
+export function formatReviewComment(results: ReviewOutput): string {
+  return tagComment([
+    REVIEW_TAG,
+    `🔍 **Review Results** — Ease: ${results.easeScore}/10 | Confidence: ${results.confidenceScore}/10`,
+    '',
+    SPEC_TAG,
+    formatSpec(results),
+    '',
+    IMPACT_TAG,
+    formatImpact(results),
+  ].join('\n'));
+}
+
+export function formatFailureComment(error: string): string {
+  return tagComment(`${FAILURE_TAG}\n❌ ERROR: ${error}`);
+}
+
+export interface ParsedReviewFields {
+  spec?: string;
+  impact?: string;
+  ease?: number;
+  confidence?: number;
+  prUrl?: string;
+}
+
+/** First line of the execution comment — also how the PR URL is read back. */
+export function formatPullRequestLine(prUrl?: string): string {
+  return prUrl ? `🔗 Pull request: ${prUrl}` : '🔗 Branch pushed (no pull request)';
+}
+
+/**
+ * Recover spec/impact/scores and the PR URL from a ticket's comments, oldest first.
+ * Later review comments win; a later failure comment replaces the impact
+ * with the error, mirroring how the Notion backend overwrites Impact.
+ */
+export function parseReviewComments(bodies: string[]): ParsedReviewFields {
+  const fields: ParsedReviewFields = {};
+  for (const body of bodies) {
+    const text = body.replace(BOT_TAG, '').trim();
+    if (text.includes(REVIEW_TAG)) {
+      const ease = text.match(/Ease: (\d+)\/10/);
+      const confidence = text.match(/Confidence: (\d+)\/10/);
+      const specStart = text.indexOf(SPEC_TAG);
+      const impactStart = text.indexOf(IMPACT_TAG);
+      fields.ease = ease ? Number(ease[1]) : undefined;
+      fields.confidence = confidence ? Number(confidence[1]) : undefined;
+      if (specStart !== -1 && impactStart > specStart) {
+        fields.spec = text.slice(specStart + SPEC_TAG.length, impactStart).trim() || undefined;
+        fields.impact = text.slice(impactStart + IMPACT_TAG.length).trim() || undefined;
+      }
+    } else if (text.includes(FAILURE_TAG)) {
+      fields.impact = text.slice(text.indexOf(FAILURE_TAG) + FAILURE_TAG.length).trim().replace(/^❌ /, '');
+    } else {
+      const pr = text.match(/^🔗 Pull request: (\S+)/m);
+      if (pr) fields.prUrl = pr[1];
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,63 @@
+import type { TicketSource } from '../config.js';
+import { createNotionBoardSource } from './notion.js';
+import { getNotionConfig } from './projects.js';
+import { createGitHubIssuesSource } from './github-issues.js';
+import { createLinearSource } from './linear.js';
+import { createLocalBoardSource } from './local-board.js';
+import { withStoredReviews } from './review-store.js';
+
+interface SourceFactory {
+  create: () => TicketSource;
+  /** Env vars that must be set for this backend to start. */
+  requiredEnv: string[] | (() => string[]);
+}
+
+const SOURCES: Record<string, SourceFactory> = {
+  notion: {
+    create: () => createNotionBoardSource(),
+    // notion.databases in projects.json replaces NOTION_DATABASE_ID
+    requiredEnv: () => getNotionConfig().databases?.length ? ['NOTION_TOKEN'] : ['NOTION_TOKEN', 'NOTION_DATABASE_ID'],
+  },
+  github: { create: () => createGitHubIssuesSource(), requiredEnv: ['GITHUB_TOKEN', 'GITHUB_ISSUES_REPO'] },
+  linear: { create: () => createLinearSource(), requiredEnv: ['LINEAR_API_KEY'] },
+  local: { create: () => createLocalBoardSource(), requiredEnv: [] },
+};
+
+/** Backend name from TICKET_SOURCE (defaults to notion). */
+export function getTicketSourceName(): string {
+  return (process.env.TICKET_SOURCE || 'notion').toLowerCase();
+}
+
+export function getTicketSourceNames(): string[] {
+  return Object.keys(SOURCES);
+}
+
+/** Env vars the configured backend needs that are not set. */
+export function getMissingSourceEnv(name = getTicketSourceName()): string[] {
+  const factory = SOURCES[name];
+  if (!factory) return [];
+  const required = typeof factory.requiredEnv === 'function' ? factory.requiredEnv() : factory.requiredEnv;
+  return required.filter((key) => !process.env[key]);
+}
+
+let _source: TicketSource | null = null;
+
+/**
+ * The ticket backend the orchestrator talks to, selected by TICKET_SOURCE.
+ * Throws for unknown backend names.
+ */
+export function getTicketSource(): TicketSource {
+  if (_source) return _source;
+  const name = getTicketSourceName();
+  const factory = SOURCES[name];
+  if (!factory) {
+    throw new Error(`Unknown TICKET_SOURCE "${name}". Available: ${getTicketSourceNames().join(', ')}`);
+  }
+  _source = withStoredReviews(factory.create());
+  return _source;
+}
+
+/** Reset the cached source (for tests). */
+export function _resetTicketSource(): void {
+  _source = null;
+}
@@ -1,7 +1,8 @@
-import { readFileSync, writeFileSync, existsSync } from 'node:fs';
-import { execSync } from 'node:child_process';
-import { join } from 'node:path';
+import { readFileSync, writeFileSync, existsSync, appendFileSync, symlinkSync } from 'node:fs';
+import { execSync, spawn } from 'node:child_process';
+import { join, dirname, resolve } from 'node:path';
 import { rmSync, mkdirSync } from 'node:fs';
+import { copyFile, link, mkdir, readdir, readlink, symlink } from 'node:fs/promises';
 
 // -- Pure utilities --
 
@@ -176,20 +177,21 @@ export function updateProjectsFile(
 
 const defaultBranchCache = new Map<string, string>();
 
-export function getDefaultBranch(projectDir: string): string {
-  const cached = defaultBranchCache.get(projectDir);
+export function getDefaultBranch(projectDir: string, remote = 'origin'): string {
+  const cacheKey = `${projectDir}\0${remote}`;
+  const cached = defaultBranchCache.get(cacheKey);
   if (cached) return cached;
 
   let branch = 'main'; // ultimate fallback
 
   // Try reading the remote HEAD symbolic ref
   try {
-    const ref = execSync('git symbolic-ref refs/remotes/origin/HEAD', {
+    const ref = execSync(`git symbolic-ref refs/remotes/${shellEscape(remote)}/HEAD`, {
       cwd: projectDir,
       stdio: 'pipe',
     }).toString().trim();
     // refs/remotes/origin/main → main
-    const parsed = ref.replace('refs/remotes/origin/', '');
+    const parsed = ref.replace(`refs/remotes/${remote}/`, '');
     if (parsed) branch = parsed;
   } catch {
     // Remote HEAD not set — try common branch names
@@ -206,7 +208,7 @@ export function getDefaultBranch(projectDir: string): string {
     }
   }
 
-  defaultBranchCache.set(projectDir, branch);
+  defaultBranchCache.set(cacheKey, branch);
   return branch;
 }
 
@@ -215,6 +217,34 @@ export function _resetDefaultBranchCache(): void {
   defaultBranchCache.clear();
 }
 
+// -- Git remotes --
+
+export interface RemoteRepo {
+  /** Host name, without port (e.g. "gitlab.example.com"). */
+  host: string;
+  /** Repository path without ".git" (e.g. "group/subgroup/service"). */
+  path: string;
+}
+
+/**
+ * Parse a git remote URL — scp-style (`git@host:group/repo.git`),
+ * ssh:// or http(s):// with optional credentials and port.
+ */
+export function parseRemoteUrl(url: string): RemoteRepo | null {
+  const trimmed = url.trim();
+  const scp = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scp && !/^[a-z]+:\/\//i.test(trimmed)) {
+    return { host: scp[1], path: scp[2].replace(/\.git$/, '').replace(/\/$/, '') };
+  }
+  try {
+    const parsed = new URL(trimmed);
+    const path = parsed.pathname.replace(/^\//, '').replace(/\.git$/, '').replace(/\/$/, '');
+    return parsed.hostname && path ? { host: parsed.hostname, path } : null;
+  } catch {
+    return null;
+  }
+}
+
 // -- Git worktree helpers --
 
 export function ensureWorktreesIgnored(projectDir: string): void {
@@ -241,36 +271,25 @@ export function ensureWorktreesIgnored(projectDir: string): void {
   }
 }
 
-export function createWorktree(projectDir: string, branchName: string, worktreeDir: string, baseBranch?: string): void {
+export function createWorktree(projectDir: string, branchName: string, worktreeDir: string, baseBranch?: string, remote = 'origin'): void {
   mkdirSync(join(projectDir, '.worktrees'), { recursive: true });
   ensureWorktreesIgnored(projectDir);
 
   // Fetch latest so new branch starts from up-to-date base
   const base = baseBranch || 'main';
   try {
-    execSync(`git fetch origin ${shellEscape(base)}`, {
+    execSync(`git fetch ${shellEscape(remote)} ${shellEscape(base)}`, {
       cwd: projectDir, stdio: 'pipe', timeout: 30_000,
     });
   } catch {
     // Best effort — offline/no remote continues with local state
   }
 
-  // Clean up stale worktree if it exists from a crashed run
-  if (existsSync(worktreeDir)) {
-    try {
-      execSync(`git worktree remove ${shellEscape(worktreeDir)} --force`, {
-        cwd: projectDir,
-        stdio: 'pipe',
-      });
-    } catch {
-      rmSync(worktreeDir, { recursive: true, force: true });
-      execSync('git worktree prune', { cwd: projectDir, stdio: 'pipe' });
-    }
-  }
+  removeStaleWorktree(projectDir, worktreeDir);
 
-  // Try creating with a new branch based on origin/<baseBranch>
+  // Try creating with a new branch based on <remote>/<baseBranch>
   try {
-    execSync(`git worktree add ${shellEscape(worktreeDir)} -b ${shellEscape(branchName)} origin/${shellEscape(base)}`, {
+    execSync(`git worktree add ${shellEscape(worktreeDir)} -b ${shellEscape(branchName)} ${shellEscape(`${remote}/${base}`)}`, {
       cwd: projectDir,
       stdio: 'pipe',
     });
@@ -287,6 +306,216 @@ export function createWorktree(projectDir: string, branchName: string, worktreeD
   }
 }
 
+/**
+ * Check out a branch that already exists on the remote (e.g. the branch of
+ * an open PR) in a worktree. The local branch is reset to the remote tip,
+ * so commits pushed by reviewers are included.
+ */
+export function attachWorktree(projectDir: string, branchName: string, worktreeDir: string, remote = 'origin'): void {
+  mkdirSync(join(projectDir, '.worktrees'), { recursive: true });
+  ensureWorktreesIgnored(projectDir);
+
+  try {
+    execSync(`git fetch ${shellEscape(remote)} ${shellEscape(`+refs/heads/${branchName}:refs/remotes/${remote}/${branchName}`)}`, {
+      cwd: projectDir, stdio: 'pipe', timeout: 30_000,
+    });
+  } catch (e) {
+    throw new Error(`Failed to fetch branch ${branchName} from ${remote}: ${e}`);
+  }
+
+  removeStaleWorktree(projectDir, worktreeDir);
+
+  try {
+    execSync(`git worktree add ${shellEscape(worktreeDir)} -B ${shellEscape(branchName)} ${shellEscape(`${remote}/${branchName}`)}`, {
+      cwd: projectDir,
+      stdio: 'pipe',
+    });
+  } catch (e) {
+    throw new Error(`Failed to create worktree for branch ${branchName}: ${e}`);
+  }
+}
+
+/** Clean up a worktree left behind by a crashed run. */
+function removeStaleWorktree(projectDir: string, worktreeDir: string): void {
+  if (!existsSync(worktreeDir)) return;
+  try {
+    execSync(`git worktree remove ${shellEscape(worktreeDir)} --force`, {
+      cwd: projectDir,
+      stdio: 'pipe',
+    });
+  } catch {
+    rmSync(worktreeDir, { recursive: true, force: true });
+    execSync('git worktree prune', { cwd: projectDir, stdio: 'pipe' });
+  }
+}
+
+// -- Worktree setup --
+
+/**
+ * Reuse dependency directories (node_modules, .venv, ...) from the main
+ * checkout in a fresh worktree. Symlinks are instant but shared: an install
+ * run in the worktree changes the main checkout too. Hardlinks cost a
+ * directory walk and give the worktree its own directories, so files an
+ * install adds, removes or replaces stay there — but each file still shares
+ * its contents with the main checkout, so an in-place edit changes both
+ * (package managers replace files rather than edit them). Paths missing from the main
+ * checkout or already present in the worktree are skipped. Resolves to the
+ * paths that were linked.
+ */
+export async function linkDependencies(projectDir: string, worktreeDir: string, paths: string[], strategy: 'symlink' | 'hardlink' = 'symlink'): Promise<string[]> {
+  const linked: string[] = [];
+  for (const path of paths) {
+    const source = join(projectDir, path);
+    const target = join(worktreeDir, path);
+    if (!existsSync(source) || existsSync(target)) continue;
+    mkdirSync(dirname(target), { recursive: true });
+    if (strategy === 'hardlink') await hardlinkTree(source, target);
+    else symlinkSync(resolve(source), target, 'dir');
+    linked.push(path);
+  }
+  if (linked.length > 0) excludeFromGit(worktreeDir, linked);
+  return linked;
+}
+
+/**
+ * Copy a directory tree as hardlinks, falling back to a real copy across
+ * filesystems. Asynchronous: a node_modules walk can take a while, and the
+ * daemon keeps serving webhooks and other agents meanwhile.
+ */
+async function hardlinkTree(source: string, target: string): Promise<void> {
+  await mkdir(target, { recursive: true });
+  for (const entry of await readdir(source, { withFileTypes: true })) {
+    const from = join(source, entry.name);
+    const to = join(target, entry.name);
+    if (entry.isDirectory()) {
+      await hardlinkTree(from, to);
+    } else if (entry.isSymbolicLink()) {
+      await symlink(await readlink(from), to);
+    } else {
+      try {
+        await link(from, to);
+      } catch {
+        await copyFile(from, to);
+      }
+    }
+  }
+}
+
+// Marks the info/exclude lines linkDependencies added, so they can be taken out again
+const EXCLUDE_MARKER = '# ticket-to-pr: dependency link';
+
+function excludePath(cwd: string): string {
+  const commonDir = execSync('git rev-parse --git-common-dir', { cwd, stdio: 'pipe' }).toString().trim();
+  return join(resolve(cwd, commonDir), 'info', 'exclude');
+}
+
+/**
+ * Keep linked dependency paths out of the agent's commits. A `node_modules/`
+ * line in .gitignore doesn't match a symlink, so the paths go into the
+ * repo's info/exclude as well. Git only reads the one shared by all
+ * worktrees (a worktree's own info/exclude is ignored), so the lines are
+ * marked and removeWorktree takes them out with the last worktree.
+ */
+function excludeFromGit(worktreeDir: string, paths: string[]): void {
+  try {
+    const path = excludePath(worktreeDir);
+    const existing = existsSync(path) ? readFileSync(path, 'utf-8').split('\n').map((l) => l.trim()) : [];
+    const missing = paths.map((p) => `/${p.replace(/^\/+|\/+$/g, '')}`).filter((p) => !existing.includes(p));
+    if (missing.length === 0) return;
+    mkdirSync(dirname(path), { recursive: true });
+    const separator = existing.length > 0 && existing[existing.length - 1] !== '' ? '\n' : '';
+    appendFileSync(path, separator + missing.map((p) => `${EXCLUDE_MARKER}\n${p}`).join('\n') + '\n');
+  } catch {
+    // Best effort — the linked paths may show up as untracked
+  }
+}
+
+/** Take the lines excludeFromGit added back out of info/exclude once no worktree is left to need them. */
+function unexcludeFromGit(projectDir: string): void {
+  try {
+    const worktrees = execSync('git worktree list --porcelain', { cwd: projectDir, stdio: 'pipe' }).toString()
+      .split('\n').filter((l) => l.startsWith('worktree '));
+    if (worktrees.length > 1) return;
+    const path = excludePath(projectDir);
+    if (!existsSync(path)) return;
+    const lines = readFileSync(path, 'utf-8').split('\n');
+    const kept = lines.filter((line, i) => line !== EXCLUDE_MARKER && lines[i - 1] !== EXCLUDE_MARKER);
+    if (kept.length < lines.length) writeFileSync(path, kept.join('\n'));
+  } catch {
+    // Best effort — leftover lines only hide those paths from git status
+  }
+}
+
+// -- Build validation --
+
+export interface BuildResult {
+  ok: boolean;
+  /** Combined stdout and stderr of a failed build (empty when it passed). */
+  output: string;
+}
+
+const BUILD_OUTPUT_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Run a project's build command in `cwd`, capturing its output on failure:
+ * stdout and stderr interleaved as they arrive, and only the last
+ * `maxOutputBytes` of it (where the errors are). Runs in the background —
+ * builds and test suites can take minutes, and the daemon has webhooks,
+ * agent streams and polling to keep serving.
+ */
+export function runBuildCommand(command: string, cwd: string, timeoutMs = 120_000, maxOutputBytes = BUILD_OUTPUT_MAX_BYTES): Promise<BuildResult> {
+  return new Promise((resolve) => {
+    // Its own process group, so a timeout stops everything the command started
+    // (an `npm test` whose workers outlive the shell would hold the pipes open)
+    const child = spawn(command, { cwd, shell: true, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    let truncated = false;
+    const collect = (chunk: Buffer) => {
+      chunks.push(chunk);
+      bytes += chunk.length;
+      // Rolling tail: drop the oldest output once over the cap
+      while (bytes > maxOutputBytes) {
+        const excess = bytes - maxOutputBytes;
+        if (chunks[0].length <= excess) {
+          bytes -= chunks.shift()!.length;
+        } else {
+          chunks[0] = chunks[0].subarray(excess);
+          bytes -= excess;
+        }
+        truncated = true;
+      }
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch {
+        // Already exited
+      }
+    }, timeoutMs);
+
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      resolve({ ok: false, output: err.message });
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0 && !timedOut) return resolve({ ok: true, output: '' });
+      const tail = Buffer.concat(chunks).toString().trim();
+      const output = truncated ? `(earlier output truncated)\n${tail}` : tail;
+      if (timedOut) {
+        return resolve({ ok: false, output: `${output}\n(build timed out after ${Math.round(timeoutMs / 1000)}s)`.trim() });
+      }
+      resolve({ ok: false, output: output || `Command failed with exit code ${code}: ${command}` });
+    });
+  });
+}
+
 // -- Blocked file validation --
 
 /** Convert a simple glob pattern to a regex. Supports **, *, and ? wildcards. */
@@ -319,32 +548,36 @@ function globToRegex(pattern: string): RegExp {
   return new RegExp(`^${regex}$`);
 }
 
-export function validateNoBlockedFiles(
-  worktreeDir: string,
-  baseBranch: string,
-  blockedPatterns: string[],
-): string[] {
-  if (blockedPatterns.length === 0) return [];
-
-  let changedFiles: string[];
+/** Files changed on the branch since `baseRef` (e.g. "origin/main"). */
+export function listChangedFiles(worktreeDir: string, baseRef: string): string[] {
   try {
     const output = execSync(
-      `git diff --name-only origin/${shellEscape(baseBranch)}...HEAD`,
+      `git diff --name-only ${shellEscape(baseRef)}...HEAD`,
       { cwd: worktreeDir, stdio: 'pipe' },
     ).toString().trim();
-    changedFiles = output ? output.split('\n') : [];
+    return output ? output.split('\n') : [];
   } catch {
     // Fallback: diff against HEAD~1 or empty if no commits
     try {
       const output = execSync('git diff --name-only HEAD~1...HEAD', {
         cwd: worktreeDir, stdio: 'pipe',
       }).toString().trim();
-      changedFiles = output ? output.split('\n') : [];
+      return output ? output.split('\n') : [];
     } catch {
       return []; // No commits to validate
     }
   }
+}
+
+export function validateNoBlockedFiles(
+  worktreeDir: string,
+  baseBranch: string,
+  blockedPatterns: string[],
+  remote = 'origin',
+): string[] {
+  if (blockedPatterns.length === 0) return [];
 
+  const changedFiles = listChangedFiles(worktreeDir, `${remote}/${baseBranch}`);
   const regexes = blockedPatterns.map(globToRegex);
   const violations: string[] = [];
 
@@ -360,6 +593,29 @@ export function validateNoBlockedFiles(
   return violations;
 }
 
+/**
+ * Changed files the review didn't list in affectedFiles. Entries may be
+ * paths, directories (trailing slash) or globs, and the review agent
+ * sometimes annotates them ("`src/app.ts` (new)") — only the leading path
+ * counts. An empty affectedFiles list means no scope to check against.
+ */
+export function findOutOfScopeFiles(changedFiles: string[], affectedFiles: string[]): string[] {
+  const scope = affectedFiles
+    .map((entry) => entry.replace(/`/g, '').trim().split(/\s+/)[0].replace(/^\.\//, ''))
+    .filter(Boolean);
+  if (scope.length === 0) return [];
+
+  const matchers = scope.map((entry) => {
+    if (/[*?]/.test(entry)) {
+      const regex = globToRegex(entry);
+      return (file: string) => regex.test(file);
+    }
+    const dir = entry.replace(/\/+$/, '');
+    return (file: string) => file === dir || file.startsWith(`${dir}/`);
+  });
+  return changedFiles.filter((file) => !matchers.some((matches) => matches(file)));
+}
+
 export function removeWorktree(projectDir: string, worktreeDir: string): void {
   try {
     execSync(`git worktree remove ${shellEscape(worktreeDir)} --force`, {
@@ -379,6 +635,7 @@ export function removeWorktree(projectDir: string, worktreeDir: string): void {
       // Best effort
     }
   }
+  unexcludeFromGit(projectDir);
 }
 
 // -- Per-project learnings --
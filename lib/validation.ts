@@ -0,0 +1,69 @@
+import type { ValidationStageConfig } from './projects.js';
+import { runBuildCommand } from './utils.js';
+
+// -- Validation stages --
+//
+// A project's checks run in order in the worktree before anything is
+// pushed: install, build, lint, typecheck, tests — whatever `validate` in
+// projects.json lists. A failed required stage blocks the push (and stops
+// the run, since later stages usually depend on it); an advisory stage only
+// warns.
+
+export type StageStatus = 'passed' | 'failed' | 'warned' | 'skipped';
+
+export interface StageResult {
+  name: string;
+  command: string;
+  required: boolean;
+  status: StageStatus;
+  durationMs: number;
+  /** Combined output of a failed stage. */
+  output: string;
+}
+
+/** Run the stages one after another; each waits for the previous one to finish. */
+export async function runValidationStages(stages: Required<ValidationStageConfig>[], cwd: string): Promise<StageResult[]> {
+  const results: StageResult[] = [];
+  let blocked = false;
+  for (const stage of stages) {
+    const base = { name: stage.name, command: stage.command, required: stage.required };
+    if (blocked) {
+      results.push({ ...base, status: 'skipped', durationMs: 0, output: '' });
+      continue;
+    }
+    const startedAt = Date.now();
+    const run = await runBuildCommand(stage.command, cwd, stage.timeout * 1000);
+    const status: StageStatus = run.ok ? 'passed' : stage.required ? 'failed' : 'warned';
+    results.push({ ...base, status, durationMs: Date.now() - startedAt, output: run.output });
+    if (status === 'failed') blocked = true;
+  }
+  return results;
+}
+
+/** The required stage that failed, if any. */
+export function blockingFailure(results: StageResult[]): StageResult | undefined {
+  return results.find((r) => r.status === 'failed');
+}
+
+const STATUS_LABELS: Record<StageStatus, string> = {
+  passed: '✅ passed',
+  failed: '❌ failed',
+  warned: '⚠️ failed (advisory)',
+  skipped: '⏭️ skipped',
+};
+
+/** One line per stage, for ticket comments ("Validation: build ✅ passed (12s) | lint ⚠️ ..."). */
+export function formatValidationSummary(results: StageResult[]): string {
+  if (results.length === 0) return 'Validation: N/A';
+  const stages = results.map((r) => `${r.name} ${STATUS_LABELS[r.status]}${r.status === 'skipped' ? '' : ` (${Math.round(r.durationMs / 1000)}s)`}`);
+  return `Validation: ${stages.join(' | ')}`;
+}
+
+/** Markdown table for the PR body. */
+export function formatValidationTable(results: StageResult[]): string {
+  return [
+    '| Stage | Command | Result |',
+    '|-------|---------|--------|',
+    ...results.map((r) => `| ${r.name}${r.required ? '' : ' (advisory)'} | \`${r.command.replace(/\|/g, '\\|')}\` | ${STATUS_LABELS[r.status]} |`),
+  ].join('\n');
+}
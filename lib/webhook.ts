@@ -0,0 +1,135 @@
+import { createServer, type Server } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// -- Notion webhook listener --
+//
+// Notion signs each event with the subscription's verification token:
+// X-Notion-Signature: sha256=<hex HMAC-SHA256 of the raw body>.
+// The very first request after creating a subscription carries the
+// verification token itself, which has to be pasted back into Notion.
+
+/** Page events that can mean a ticket changed columns or content. */
+const PAGE_EVENTS = new Set(['page.created', 'page.properties_updated', 'page.content_updated', 'page.undeleted']);
+
+export function signNotionPayload(rawBody: string, secret: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+export function verifyNotionSignature(rawBody: string, signature: string | undefined, secret: string): boolean {
+  if (!signature || !secret) return false;
+  const expected = Buffer.from(signNotionPayload(rawBody, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export interface NotionPageEvent {
+  type: string;
+  pageId: string;
+  /** Parent database, when Notion includes it. */
+  databaseId?: string;
+}
+
+/** Extract the page an event is about, or null for events we don't act on. */
+export function parseNotionEvent(body: unknown): NotionPageEvent | null {
+  if (!body || typeof body !== 'object') return null;
+  const event = body as {
+    type?: string;
+    entity?: { id?: string; type?: string };
+    data?: { parent?: { id?: string; type?: string } };
+  };
+  if (!event.type || !PAGE_EVENTS.has(event.type)) return null;
+  if (event.entity?.type !== 'page' || !event.entity.id) return null;
+  const parent = event.data?.parent;
+  return {
+    type: event.type,
+    pageId: event.entity.id,
+    databaseId: parent?.type === 'database' ? parent.id : undefined,
+  };
+}
+
+export interface WebhookServerOptions {
+  port: number;
+  /** Request path to accept events on (default "/notion/webhook"). */
+  path?: string;
+  /** Verification token from the Notion subscription. Unset during the initial handshake. */
+  secret?: string;
+  onEvent: (event: NotionPageEvent) => void;
+  onVerificationToken: (token: string) => void;
+  onRejected: (reason: string) => void;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Start the listener. Events are acknowledged before they are handled —
+ * Notion retries slow responses, and the reconciliation poll catches
+ * anything a handler drops.
+ */
+export function startWebhookServer(opts: WebhookServerOptions): Promise<Server> {
+  const path = opts.path ?? '/notion/webhook';
+
+  const server = createServer((req, res) => {
+    if (req.method !== 'POST' || req.url?.split('?')[0] !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return;
+      bytes += chunk.length;
+      chunks.push(chunk);
+      if (bytes > MAX_BODY_BYTES) {
+        // Answer now; the rest of the body is read and dropped so the sender sees the 413
+        tooLarge = true;
+        chunks.length = 0;
+        opts.onRejected('body too large');
+        res.writeHead(413, { Connection: 'close' }).end();
+      }
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      const raw = Buffer.concat(chunks).toString('utf-8');
+
+      let body: unknown;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        opts.onRejected('invalid JSON body');
+        res.writeHead(400).end();
+        return;
+      }
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        opts.onRejected('body is not a JSON object');
+        res.writeHead(400).end();
+        return;
+      }
+
+      // One-time subscription handshake: surface the token so it can be configured
+      const token = (body as { verification_token?: unknown }).verification_token;
+      if (typeof token === 'string') {
+        opts.onVerificationToken(token);
+        res.writeHead(200).end();
+        return;
+      }
+
+      const signature = req.headers['x-notion-signature'];
+      if (!verifyNotionSignature(raw, Array.isArray(signature) ? signature[0] : signature, opts.secret ?? '')) {
+        opts.onRejected('signature mismatch');
+        res.writeHead(401).end();
+        return;
+      }
+
+      res.writeHead(200).end();
+      const event = parseNotionEvent(body);
+      if (event) opts.onEvent(event);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(opts.port, () => resolve(server));
+  });
+}